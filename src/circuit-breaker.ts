@@ -0,0 +1,76 @@
+import type { ResilienceOptions } from "./types";
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_SECONDS = 30;
+
+/**
+ * Thrown when a storage operation times out or is skipped while the circuit is open.
+ */
+export class CacheUnavailableError extends Error {
+  override readonly name = "CacheUnavailableError";
+  readonly reason: "timeout" | "open";
+
+  constructor(message: string, reason: "timeout" | "open") {
+    super(message);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Applies a timeout to storage operations and skips them for `cooldown` seconds
+ * after `failureThreshold` consecutive failures.
+ *
+ * After the cooldown the next operation is a trial: success closes the circuit,
+ * failure opens it again right away.
+ */
+export class CircuitBreaker {
+  private readonly timeoutMs: number;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly onChange: (open: boolean) => void;
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(options: ResilienceOptions = {}, onChange: (open: boolean) => void = () => {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+    this.cooldownMs = (options.cooldown ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+    this.onChange = onChange;
+  }
+
+  get open(): boolean {
+    return this.openUntil > Date.now();
+  }
+
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.open) throw new CacheUnavailableError("Cache circuit is open", "open");
+
+    let result: T;
+    try {
+      result = await withTimeout(operation(), this.timeoutMs);
+    } catch (error) {
+      this.failures++;
+      if (this.failures >= this.failureThreshold) {
+        this.openUntil = Date.now() + this.cooldownMs;
+        this.onChange(true);
+      }
+      throw error;
+    }
+
+    if (this.failures >= this.failureThreshold) this.onChange(false);
+    this.failures = 0;
+    return result;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new CacheUnavailableError(`Cache operation timed out after ${ms}ms`, "timeout")),
+      ms,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
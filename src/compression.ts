@@ -0,0 +1,47 @@
+import type { CompressionAlgorithm } from "./types";
+
+type Zlib = typeof import("node:zlib");
+
+let zlib: Promise<Zlib> | undefined;
+
+// imported on first use, so runtimes without `node:zlib` work as long as compression is off
+function loadZlib(): Promise<Zlib> {
+  zlib ??= import("node:zlib");
+  return zlib;
+}
+
+function run(
+  fn: (input: Buffer, callback: (error: Error | null, result: Buffer) => void) => void,
+  input: Buffer,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    fn(input, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+}
+
+/**
+ * Compresses `text` and returns it base64 encoded, so any driver can store it.
+ */
+export async function compress(text: string, algorithm: CompressionAlgorithm): Promise<string> {
+  const z = await loadZlib();
+  const input = Buffer.from(text, "utf8");
+  const output =
+    algorithm === "brotli"
+      ? await run(z.brotliCompress, input)
+      : algorithm === "deflate"
+        ? await run(z.deflate, input)
+        : await run(z.gzip, input);
+  return output.toString("base64");
+}
+
+export async function decompress(data: string, algorithm: CompressionAlgorithm): Promise<string> {
+  const z = await loadZlib();
+  const input = Buffer.from(data, "base64");
+  const output =
+    algorithm === "brotli"
+      ? await run(z.brotliDecompress, input)
+      : algorithm === "deflate"
+        ? await run(z.inflate, input)
+        : await run(z.gunzip, input);
+  return output.toString("utf8");
+}
@@ -0,0 +1,101 @@
+import { Column, getTableName, is, Param, SQL, StringChunk, type Table } from "drizzle-orm";
+import type { CacheConfig } from "drizzle-orm/cache/core/types";
+
+/**
+ * `CacheConfig` carrying dependency keys through Drizzle's `$withCache({ config })` to `put`.
+ */
+export type DependencyCacheConfig = CacheConfig & {
+  dependencies?: string[];
+  tags?: string[];
+};
+
+/**
+ * Attaches dependency keys (e.g. `users:42`) to a cache config, so the entry can be dropped with
+ * `cache.invalidateKeys` without a table-level invalidation.
+ *
+ * ```ts
+ * db.select().from(users).where(eq(users.id, 42))
+ *   .$withCache({ autoInvalidate: false, config: dependsOn(["users:42"], { ex: 60 }) })
+ * ```
+ */
+export function dependsOn(keys: string[], config: CacheConfig = {}): CacheConfig {
+  const withDependencies: DependencyCacheConfig = { ...config, dependencies: keys };
+  return withDependencies;
+}
+
+/**
+ * Attaches additional tags to a cache config, so the entry is also dropped when any of them
+ * (or a matching tag pattern) is invalidated.
+ *
+ * ```ts
+ * db.select().from(users).where(eq(users.tenantId, 7))
+ *   .$withCache({ tag: "tenant:7:users:list", config: withTags(["tenant:7", "users"]) })
+ * ```
+ */
+export function withTags(tags: string[], config: CacheConfig = {}): CacheConfig {
+  const withAdditionalTags: DependencyCacheConfig = { ...config, tags };
+  return withAdditionalTags;
+}
+
+export function getDependencies(config: CacheConfig | undefined): string[] {
+  return (config as DependencyCacheConfig | undefined)?.dependencies ?? [];
+}
+
+export function getTags(config: CacheConfig | undefined): string[] {
+  return (config as DependencyCacheConfig | undefined)?.tags ?? [];
+}
+
+/**
+ * Derives row keys (`<table>:<primary key>`) from a where clause built with `eq`, `inArray`,
+ * `or` and `and` on the table's primary key column.
+ * Returns `undefined` when the rows cannot be determined, so callers fall back to the table.
+ */
+export function rowKeys(table: Table, where: SQL | undefined): string[] | undefined {
+  if (!where) return undefined;
+  const keys = collectRowKeys(table, where);
+  return keys ? Array.from(new Set(keys)) : undefined;
+}
+
+function collectRowKeys(table: Table, where: SQL): string[] | undefined {
+  const chunks = where.queryChunks.filter((chunk) => !isText(chunk, ""));
+
+  // (a) — `and`/`or` wrap their conditions in parentheses
+  const [first, inner, last] = chunks;
+  if (chunks.length === 3 && isText(first, "(") && is(inner, SQL) && isText(last, ")")) {
+    return collectRowKeys(table, inner);
+  }
+
+  // a or b — every branch must resolve to rows
+  if (chunks.some((chunk) => isText(chunk, " or "))) {
+    const branches = chunks.filter((chunk) => is(chunk, SQL));
+    const keys = branches.map((branch) => collectRowKeys(table, branch));
+    return keys.every((branch) => branch !== undefined) ? keys.flat() : undefined;
+  }
+
+  // a and b — any branch resolving to rows narrows the whole clause
+  if (chunks.some((chunk) => isText(chunk, " and "))) {
+    for (const branch of chunks.filter((chunk) => is(chunk, SQL))) {
+      const keys = collectRowKeys(table, branch);
+      if (keys) return keys;
+    }
+    return undefined;
+  }
+
+  // column = value, column in (values)
+  const [column, operator, value] = chunks;
+  if (chunks.length !== 3 || !is(column, Column) || column.table !== table || !column.primary) {
+    return undefined;
+  }
+  const name = getTableName(table);
+  if (isText(operator, " = ") && is(value, Param)) {
+    return [`${name}:${String(value.value)}`];
+  }
+  if (isText(operator, " in ") && Array.isArray(value) && value.every((item) => is(item, Param))) {
+    return value.map((item) => `${name}:${String((item as Param).value)}`);
+  }
+  return undefined;
+}
+
+function isText(chunk: unknown, text: string): boolean {
+  return is(chunk, StringChunk) && chunk.value.join("") === text;
+}
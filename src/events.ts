@@ -0,0 +1,84 @@
+import type { CacheEventListener, CacheEventMap, CacheEventName } from "./types";
+
+/**
+ * Minimal typed emitter for cache lifecycle events.
+ *
+ * Listeners run synchronously; errors they throw are swallowed so instrumentation
+ * can never fail a query.
+ */
+export class CacheEvents {
+  private readonly listeners = new Map<CacheEventName, Set<CacheEventListener<never>>>();
+
+  on<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as CacheEventListener<never>);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener as CacheEventListener<never>);
+  }
+
+  emit<E extends CacheEventName>(event: E, payload: CacheEventMap[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of set) {
+      try {
+        (listener as CacheEventListener<E>)(payload);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+}
+
+/**
+ * Built-in subscriber behind the `debug` option.
+ */
+export function subscribeDebugLogger(
+  events: CacheEvents,
+  log: (message: string) => void,
+  showTier: boolean,
+): void {
+  const label = (event: { key: string; isTag: boolean }) =>
+    `${event.isTag ? "tag" : "query"} ${event.key}`;
+
+  events.on("hit", (event) => {
+    const tier = showTier ? ` tier=${event.tier}` : "";
+    log(`${event.stale ? "STALE" : "HIT"} ${label(event)}${tier}`);
+  });
+  events.on("miss", (event) => {
+    if (event.reason === "expired") return; // logged by the "expired" event
+    if (event.reason === "refresh") log(`STALE ${label(event)} refreshing`);
+    else if (event.reason === "decode") log(`MISS ${label(event)} decode failed`);
+    else if (event.reason === "error") log(`MISS ${label(event)} cache unavailable`);
+    else if (event.reason === "pending") log(`MISS ${label(event)} pending invalidation`);
+    else if (event.reason === "version") log(`MISS ${label(event)} other schema version`);
+    else if (event.reason === "early") log(`MISS ${label(event)} early refresh`);
+    else log(`MISS ${label(event)}`);
+  });
+  events.on("expired", (event) => {
+    log(`EXPIRED ${label(event)}`);
+  });
+  events.on("put", (event) => {
+    log(`PUT ${label(event)} ttlSeconds=${event.ttlSeconds ?? "none"}`);
+  });
+  events.on("skip", (event) => {
+    log(`SKIP ${label(event)} reason=${event.reason} bytes=${event.bytes}`);
+  });
+  events.on("evict", (event) => {
+    log(`EVICT ${label(event)} policy=${event.policy} bytes=${event.bytes}`);
+  });
+  events.on("error", (event) => {
+    const message = event.error instanceof Error ? event.error.message : String(event.error);
+    log(`ERROR ${event.operation} ${event.key ?? event.tables.join(",")} ${message}`);
+  });
+  events.on("invalidate", (event) => {
+    if (event.isTag) log(`INVALIDATE TAG ${event.key} removed=${event.removed}`);
+    else log(`INVALIDATE TABLES ${event.tables.join(",")} removed=${event.removed}`);
+  });
+}
@@ -1,2 +1,48 @@
-export type { UnstorageCacheOptions } from "./types";
+export { CacheUnavailableError } from "./circuit-breaker";
+export { type DependencyCacheConfig, dependsOn, rowKeys, withTags } from "./dependencies";
+export { memoryInvalidationTransport, storageInvalidationTransport } from "./invalidation";
+export { type InstrumentCacheOptions, instrumentCache } from "./otel";
+export { schemaVersion } from "./schema-version";
+export { typedJsonSerializer } from "./serializer";
+export type {
+  CacheCounters,
+  CacheDropEvent,
+  CacheEntryInfo,
+  CacheErrorEvent,
+  CacheEventListener,
+  CacheEventMap,
+  CacheEventName,
+  CacheEvictEvent,
+  CacheExpiredEvent,
+  CacheHitEvent,
+  CacheInvalidateEvent,
+  CacheLookup,
+  CacheMissEvent,
+  CachePolicy,
+  CachePolicyOptions,
+  CachePutEvent,
+  CacheSerializer,
+  CacheSkipEvent,
+  CacheStats,
+  CompressionAlgorithm,
+  CompressionOptions,
+  DurableInvalidationOptions,
+  EarlyRefreshOptions,
+  EvictionOptions,
+  EvictionPolicy,
+  InvalidationListener,
+  InvalidationMessage,
+  InvalidationOptions,
+  InvalidationTransport,
+  LocalTierOptions,
+  ResilienceOptions,
+  SingleFlightOptions,
+  SweepResult,
+  UnstorageCacheOptions,
+  WarmableQuery,
+  WarmupLoader,
+  WarmupOptions,
+  WarmupQuery,
+  WarmupResult,
+} from "./types";
 export { UnstorageCache, unstorageCache } from "./unstorage-cache";
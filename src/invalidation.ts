@@ -0,0 +1,73 @@
+import type { Storage } from "unstorage";
+import type { InvalidationListener, InvalidationMessage, InvalidationTransport } from "./types";
+
+const DEFAULT_BUS_BASE = "drizzle:cache:__BUS__";
+const DEFAULT_RETAIN_SECONDS = 60;
+
+/**
+ * In-process transport, useful for tests and for several caches sharing one process.
+ */
+export function memoryInvalidationTransport(): InvalidationTransport {
+  const listeners = new Set<InvalidationListener>();
+
+  return {
+    async publish(message) {
+      await Promise.all(Array.from(listeners, (listener) => listener(message)));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Transport built on unstorage `watch`/`unwatch`.
+ *
+ * Every message is written under its own key in `base`, and subscribers read it back on the
+ * `update` event. Messages are removed after `retain` seconds (also passed to the driver as TTL).
+ * Delivery depends on the driver's `watch` support; drivers without it only notify
+ * watchers of the same storage instance.
+ * Failed removals and deliveries are reported to the `onError` of every subscriber.
+ */
+export function storageInvalidationTransport(
+  storage: Storage,
+  options: { base?: string; retain?: number } = {},
+): InvalidationTransport {
+  const base = options.base ?? DEFAULT_BUS_BASE;
+  const retain = options.retain ?? DEFAULT_RETAIN_SECONDS;
+  const errorHandlers = new Set<(error: unknown) => void>();
+  let sequence = 0;
+
+  return {
+    async publish(message) {
+      const key = `${base}:${message.source}:${Date.now()}-${sequence++}`;
+      await storage.setItem(key, message, { ttl: retain });
+      setTimeout(() => {
+        storage.removeItem(key).catch((error: unknown) => {
+          for (const onError of errorHandlers) onError(error);
+        });
+      }, retain * 1000).unref?.();
+    },
+    async subscribe(listener, onError) {
+      const report = (error: unknown) => onError?.(error);
+      errorHandlers.add(report);
+      const unwatch = await storage.watch(async (event, key) => {
+        if (event !== "update" || !key.startsWith(`${base}:`)) return;
+        let message: InvalidationMessage | null = null;
+        try {
+          message = await storage.getItem<InvalidationMessage>(key);
+          if (message) await listener(message);
+        } catch (error) {
+          onError?.(error, message ?? undefined);
+        }
+      });
+      return async () => {
+        errorHandlers.delete(report);
+        await unwatch();
+      };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import type { LocalTierOptions } from "./types";
+import { byteLength } from "./utils";
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+type Slot = {
+  /** Serialized like `storage` does, so callers mutating rows never alter cached ones */
+  json: string;
+  size: number;
+  expiresAt: number | undefined;
+};
+
+/**
+ * Bounded in-process LRU kept in front of the shared storage.
+ *
+ * Relies on `Map` insertion order: reads move a key to the end, evictions take from the start.
+ */
+export class LocalTier {
+  private readonly maxEntries: number;
+  private readonly maxBytes: number | undefined;
+  private readonly ttlMs: number | undefined;
+  private readonly slots = new Map<string, Slot>();
+  private bytes = 0;
+
+  constructor(options: LocalTierOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes;
+    this.ttlMs = options.ttl !== undefined ? options.ttl * 1000 : undefined;
+  }
+
+  get<T>(key: string): T | undefined {
+    const slot = this.slots.get(key);
+    if (!slot) return undefined;
+
+    if (slot.expiresAt !== undefined && slot.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+
+    this.slots.delete(key);
+    this.slots.set(key, slot);
+    return JSON.parse(slot.json) as T;
+  }
+
+  /**
+   * Stores `value` until `expiresAt` (or the tier's own `ttl`, whichever comes first).
+   */
+  set(key: string, value: unknown, expiresAt?: number): void {
+    const localExpiresAt = this.ttlMs !== undefined ? Date.now() + this.ttlMs : undefined;
+    const json = JSON.stringify(value);
+    if (json === undefined) {
+      this.delete(key);
+      return;
+    }
+    const size = this.maxBytes !== undefined ? byteLength(json) : 0;
+    if (this.maxBytes !== undefined && size > this.maxBytes) {
+      this.delete(key);
+      return;
+    }
+
+    this.delete(key);
+    this.slots.set(key, {
+      json,
+      size,
+      expiresAt:
+        expiresAt !== undefined && localExpiresAt !== undefined
+          ? Math.min(expiresAt, localExpiresAt)
+          : (expiresAt ?? localExpiresAt),
+    });
+    this.bytes += size;
+    this.evict();
+  }
+
+  delete(key: string): void {
+    const slot = this.slots.get(key);
+    if (!slot) return;
+    this.slots.delete(key);
+    this.bytes -= slot.size;
+  }
+
+  /**
+   * Deletes keys matching `predicate`; `value` parses the slot only when called.
+   */
+  deleteWhere(predicate: (key: string, value: () => unknown) => boolean): void {
+    for (const [key, slot] of this.slots) {
+      if (predicate(key, () => JSON.parse(slot.json))) this.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.slots.clear();
+    this.bytes = 0;
+  }
+
+  private evict(): void {
+    for (const key of this.slots.keys()) {
+      const overBytes = this.maxBytes !== undefined && this.bytes > this.maxBytes;
+      if (this.slots.size <= this.maxEntries && !overBytes) return;
+      this.delete(key);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import type { AsyncLocalStorage } from "node:async_hooks";
+import { encode } from "./utils";
+
+type Override = { namespace: string | undefined; version: string | undefined };
+
+let overrides: Promise<AsyncLocalStorage<Override>> | undefined;
+
+// imported on first use, so runtimes without `node:async_hooks` work as long as `run` is never called
+function loadOverrides(): Promise<AsyncLocalStorage<Override>> {
+  overrides ??= import("node:async_hooks").then(({ AsyncLocalStorage }) => new AsyncLocalStorage());
+  return overrides;
+}
+
+/**
+ * Resolves the namespace (e.g. tenant) and schema version cache keys are scoped to:
+ * the ones set with `run`/`runInVersion`, else the `namespace` resolver and `version` options.
+ */
+export class Namespaces {
+  private readonly resolver: (() => string | undefined) | undefined;
+  private readonly defaultVersion: string | undefined;
+  private storage: AsyncLocalStorage<Override> | undefined;
+
+  constructor(resolver?: () => string | undefined, version?: string) {
+    this.resolver = resolver;
+    this.defaultVersion = version;
+  }
+
+  current(): string | undefined {
+    const override = this.storage?.getStore();
+    if (override) return override.namespace;
+    const namespace = this.resolver?.();
+    return namespace === "" ? undefined : namespace;
+  }
+
+  version(): string | undefined {
+    const override = this.storage?.getStore();
+    return override ? override.version : this.defaultVersion;
+  }
+
+  /**
+   * Key prefix of the current scope inside `base`: `@<version>:<namespace>:`, or `""` for the root.
+   */
+  prefix(): string {
+    const version = this.version();
+    const namespace = this.current();
+    return [
+      version !== undefined ? `@${encode(version)}:` : "",
+      namespace !== undefined ? `${encode(namespace)}:` : "",
+    ].join("");
+  }
+
+  /**
+   * Runs `fn` with `namespace` as current namespace (`undefined` for the root namespace).
+   */
+  async run<T>(namespace: string | undefined, fn: () => Promise<T>): Promise<T> {
+    const version = this.version();
+    this.storage ??= await loadOverrides();
+    return this.storage.run({ namespace, version }, fn);
+  }
+
+  /**
+   * Runs `fn` against the keys of another schema `version`, in the current namespace.
+   */
+  async runInVersion<T>(version: string | undefined, fn: () => Promise<T>): Promise<T> {
+    const namespace = this.current();
+    this.storage ??= await loadOverrides();
+    return this.storage.run({ namespace, version }, fn);
+  }
+}
@@ -0,0 +1,148 @@
+import type { Attributes, Meter, Span, Tracer } from "@opentelemetry/api";
+import type { UnstorageCache } from "./unstorage-cache";
+import { normalizeTables, normalizeTags } from "./utils";
+
+const INSTRUMENTATION_NAME = "drizzle-uncache";
+const SPAN_STATUS_ERROR = 2; // `SpanStatusCode.ERROR`, without importing `@opentelemetry/api`
+
+export type InstrumentCacheOptions = {
+  /**
+   * Tracer to create spans with. Defaults to the global tracer provider.
+   */
+  tracer?: Tracer;
+  /**
+   * Meter to record metrics with. Defaults to the global meter provider.
+   */
+  meter?: Meter;
+  /**
+   * Storage driver name reported as `db.cache.driver`. Defaults to the driver of the cache storage.
+   */
+  driverName?: string;
+};
+
+type Call = { span: Span; done: boolean; removed: number };
+
+/**
+ * Instruments an `UnstorageCache` with OpenTelemetry spans and metrics.
+ *
+ * - Spans `uncache.get`, `uncache.put` and `uncache.invalidate` (`onMutate`) wrap the calls,
+ *   parented to the active context (e.g. the Drizzle query span); cache events emitted during
+ *   a call add its outcome (`db.cache.hit`, `db.cache.bytes`, ...) through `node:async_hooks`
+ * - Histogram `db.cache.duration` (ms) and counters `db.cache.hits` / `db.cache.misses`
+ *
+ * `@opentelemetry/api` is imported only when this helper runs and no tracer/meter is passed.
+ * Returns a function that removes the instrumentation.
+ */
+export async function instrumentCache(
+  cache: UnstorageCache,
+  options: InstrumentCacheOptions = {},
+): Promise<() => void> {
+  let { tracer, meter } = options;
+  if (!tracer || !meter) {
+    const api = await import("@opentelemetry/api");
+    tracer ??= api.trace.getTracer(INSTRUMENTATION_NAME);
+    meter ??= api.metrics.getMeter(INSTRUMENTATION_NAME);
+  }
+  const spanTracer = tracer;
+  const { AsyncLocalStorage } = await import("node:async_hooks");
+  const calls = new AsyncLocalStorage<Call>();
+
+  const driver = options.driverName ?? cache.driverName;
+  const driverAttributes: Attributes = driver ? { "db.cache.driver": driver } : {};
+  const duration = meter.createHistogram("db.cache.duration", {
+    description: "Duration of cache operations",
+    unit: "ms",
+  });
+  const hits = meter.createCounter("db.cache.hits", { description: "Cache hits" });
+  const misses = meter.createCounter("db.cache.misses", { description: "Cache misses" });
+
+  const record = (operation: string, durationMs: number) => {
+    duration.record(durationMs, { "db.cache.operation": operation, ...driverAttributes });
+  };
+
+  // events of background work (e.g. warming) may run in the context of a finished call
+  const current = () => {
+    const call = calls.getStore();
+    return call && !call.done ? call : undefined;
+  };
+
+  const traced = async <T>(name: string, attributes: Attributes, fn: () => Promise<T>) => {
+    const span = spanTracer.startSpan(name, { attributes: { ...attributes, ...driverAttributes } });
+    const call: Call = { span, done: false, removed: 0 };
+    try {
+      return await calls.run(call, fn);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SPAN_STATUS_ERROR });
+      throw error;
+    } finally {
+      call.done = true;
+      span.end();
+    }
+  };
+
+  const target = (key: string, tables: string[], isTag: boolean): Attributes => ({
+    "db.cache.tables": tables,
+    ...(isTag ? { "db.cache.tag": key } : {}),
+  });
+
+  const { get, put, onMutate } = cache;
+  cache.get = (key, tables, isTag, isAutoInvalidate) =>
+    traced("uncache.get", target(key, tables, isTag), () =>
+      get.call(cache, key, tables, isTag, isAutoInvalidate),
+    );
+  cache.put = (key, response, tables, isTag, config) =>
+    traced("uncache.put", target(key, tables, isTag), () =>
+      put.call(cache, key, response, tables, isTag, config),
+    );
+  cache.onMutate = (params) =>
+    traced(
+      "uncache.invalidate",
+      {
+        "db.cache.tables": normalizeTables(params.tables),
+        "db.cache.tags": normalizeTags(params.tags),
+      },
+      () => onMutate.call(cache, params),
+    );
+
+  const unsubscribe = [
+    cache.on("hit", (event) => {
+      hits.add(1, { "db.cache.tier": event.tier, ...driverAttributes });
+      record("get", event.durationMs);
+      current()?.span.setAttributes({
+        "db.cache.hit": true,
+        "db.cache.tier": event.tier,
+        "db.cache.stale": event.stale,
+      });
+    }),
+    cache.on("miss", (event) => {
+      misses.add(1, { "db.cache.miss_reason": event.reason, ...driverAttributes });
+      record("get", event.durationMs);
+      current()?.span.setAttributes({
+        "db.cache.hit": false,
+        "db.cache.miss_reason": event.reason,
+      });
+    }),
+    cache.on("put", (event) => {
+      record("put", event.durationMs);
+      current()?.span.setAttributes({
+        ...(event.ttlSeconds !== undefined ? { "db.cache.ttl": event.ttlSeconds } : {}),
+        "db.cache.bytes": event.bytes,
+      });
+    }),
+    cache.on("invalidate", (event) => {
+      record("invalidate", event.durationMs);
+      const call = current();
+      if (!call) return;
+      call.removed += event.removed;
+      call.span.setAttribute("db.cache.removed", call.removed);
+    }),
+  ];
+
+  return () => {
+    for (const off of unsubscribe) off();
+    cache.get = get;
+    cache.put = put;
+    cache.onMutate = onMutate;
+  };
+}
@@ -0,0 +1,228 @@
+import type { Storage } from "unstorage";
+import type { DurableInvalidationOptions } from "./types";
+import { encode, matchPattern } from "./utils";
+
+const DEFAULT_RETRY_DELAY_MS = 100;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30_000;
+export const PENDING_PREFIX = "__PENDING__"; // pending invalidation markers prefix
+const PATTERNS_KEY = `${PENDING_PREFIX}:patterns`; // pending tag and dependency key patterns
+
+/** Pending pattern entries (`tag:<pattern>` / `key:<pattern>`) and their invalidation tokens */
+type PatternRegistry = Record<string, string>;
+
+/**
+ * Cleans up after an invalidation. Returns the number of entries dropped through `keys`.
+ */
+type Cleanup = (tables: string[], tags: string[], keys: string[]) => Promise<number>;
+
+/**
+ * Pending invalidation markers, written before `onMutate` cleans up and removed once it succeeded.
+ *
+ * Markers are keyed by table, tag and dependency key and hold the token of the latest
+ * invalidation, so a finished invalidation never clears the marker of a newer one.
+ * Patterns share one registry key, so reads check them without listing keys.
+ * Failed cleanups are retried in-process with exponential backoff; markers left behind by a
+ * crashed instance are picked up by `retryAll`.
+ */
+export class PendingInvalidations {
+  private readonly storage: () => Storage;
+  private readonly cleanup: Cleanup;
+  private readonly onError: (error: unknown, tables: string[], tags: string[]) => void;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(
+    storage: () => Storage,
+    cleanup: Cleanup,
+    onError: (error: unknown, tables: string[], tags: string[]) => void,
+    options: DurableInvalidationOptions = {},
+  ) {
+    this.storage = storage;
+    this.cleanup = cleanup;
+    this.onError = onError;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Records the invalidation, then cleans up. A failed cleanup is retried in the background
+   * and reported through `onError`; only a failure to record the markers is thrown.
+   * Returns the result of the first cleanup, `0` when it failed.
+   */
+  async run(tables: string[], tags: string[], keys: string[] = []): Promise<number> {
+    const token = crypto.randomUUID();
+    const markers = this.markerKeys(tables, tags, keys);
+    const patterns = patternsOf(tags, keys);
+    if (!markers.length && !patterns.length) return 0;
+
+    const storage = this.storage();
+    await Promise.all([
+      ...markers.map((marker) => storage.setItem(marker, token)),
+      patterns.length
+        ? this.updatePatterns((registry) => {
+            for (const pattern of patterns) registry[pattern] = token;
+          })
+        : undefined,
+    ]);
+    return this.attempt(tables, tags, keys, token, 0);
+  }
+
+  /**
+   * Whether any of `tables`, `tags` or dependency `keys` has an unfinished invalidation,
+   * including patterns. Markers and the pattern registry are read in one `getItems` call.
+   */
+  async isPending(tables: string[], tags: string[], keys: string[] = []): Promise<boolean> {
+    const markers = this.markerKeys(tables, tags, keys);
+    const withPatterns = tags.length > 0 || keys.length > 0;
+    if (!markers.length && !withPatterns) return false;
+
+    const items = await this.storage().getItems(
+      withPatterns ? [...markers, PATTERNS_KEY] : markers,
+    );
+    let registry: PatternRegistry = {};
+    for (const { key, value } of items) {
+      if (value === null || value === undefined) continue;
+      if (key !== PATTERNS_KEY) return true;
+      registry = value as PatternRegistry;
+    }
+    return Object.keys(registry).some((entry) => {
+      const [kind, pattern] = parsePattern(entry);
+      const names = kind === "key" ? keys : tags;
+      return names.some((name) => matchPattern(pattern, name));
+    });
+  }
+
+  /**
+   * Re-runs every invalidation with a marker in storage, e.g. left behind by a crashed instance.
+   * Returns the number of retried tables, tags and dependency keys.
+   */
+  async retryAll(): Promise<number> {
+    const storage = this.storage();
+    const markers = await storage.getKeys(`${PENDING_PREFIX}:`);
+    if (!markers.length) return 0;
+
+    const tokens = new Map<string, { tables: string[]; tags: string[]; keys: string[] }>();
+    const add = (token: unknown, kind: string, name: string) => {
+      const group = tokens.get(String(token)) ?? { tables: [], tags: [], keys: [] };
+      (kind === "table" ? group.tables : kind === "key" ? group.keys : group.tags).push(name);
+      tokens.set(String(token), group);
+    };
+    for (const { key, value } of await storage.getItems(markers)) {
+      if (value === null || value === undefined) continue;
+      if (key === PATTERNS_KEY) {
+        for (const [entry, token] of Object.entries(value as PatternRegistry)) {
+          add(token, ...parsePattern(entry));
+        }
+        continue;
+      }
+      const [, kind, nameEnc] = key.split(":");
+      if (kind && nameEnc) add(value, kind, decodeURIComponent(nameEnc));
+    }
+
+    let retried = 0;
+    for (const [token, { tables, tags, keys }] of tokens) {
+      await this.cleanup(tables, tags, keys);
+      await this.complete(tables, tags, keys, token);
+      retried += tables.length + tags.length + keys.length;
+    }
+    return retried;
+  }
+
+  dispose(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private async attempt(
+    tables: string[],
+    tags: string[],
+    keys: string[],
+    token: string,
+    attempt: number,
+  ): Promise<number> {
+    try {
+      const result = await this.cleanup(tables, tags, keys);
+      await this.complete(tables, tags, keys, token);
+      return result;
+    } catch (error) {
+      this.onError(error, tables, tags);
+      const delay = Math.min(this.retryDelayMs * 2 ** attempt, this.maxRetryDelayMs);
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        void this.attempt(tables, tags, keys, token, attempt + 1);
+      }, delay);
+      timer.unref?.();
+      this.timers.add(timer);
+      return 0;
+    }
+  }
+
+  /**
+   * Removes markers still holding `token`. The read-then-remove is not atomic, so a newer
+   * invalidation starting in between may lose its marker early; its own cleanup still runs.
+   */
+  private async complete(
+    tables: string[],
+    tags: string[],
+    keys: string[],
+    token: string,
+  ): Promise<void> {
+    const storage = this.storage();
+    const markers = this.markerKeys(tables, tags, keys);
+    const patterns = patternsOf(tags, keys);
+    const items = markers.length ? await storage.getItems(markers) : [];
+    await Promise.all([
+      ...items.filter((item) => item.value === token).map((item) => storage.removeItem(item.key)),
+      patterns.length
+        ? this.updatePatterns((registry) => {
+            for (const pattern of patterns) {
+              if (registry[pattern] === token) delete registry[pattern];
+            }
+          })
+        : undefined,
+    ]);
+  }
+
+  /**
+   * Read-modify-write of the pattern registry, removed once empty. Not atomic either:
+   * concurrent pattern invalidations of several instances may drop each other's entries.
+   */
+  private async updatePatterns(update: (registry: PatternRegistry) => void): Promise<void> {
+    const storage = this.storage();
+    const registry = { ...(await storage.getItem<PatternRegistry>(PATTERNS_KEY)) };
+    update(registry);
+    if (Object.keys(registry).length) await storage.setItem(PATTERNS_KEY, registry);
+    else await storage.removeItem(PATTERNS_KEY);
+  }
+
+  /**
+   * Marker keys of plain tables, tags and dependency keys; patterns live in the registry.
+   */
+  private markerKeys(tables: string[], tags: string[], keys: string[]): string[] {
+    return [
+      ...tables.map((table) => `${PENDING_PREFIX}:table:${encode(table)}`),
+      ...tags
+        .filter((tag) => !tag.includes("*"))
+        .map((tag) => `${PENDING_PREFIX}:tag:${encode(tag)}`),
+      ...keys
+        .filter((key) => !key.includes("*"))
+        .map((key) => `${PENDING_PREFIX}:key:${encode(key)}`),
+    ];
+  }
+}
+
+/**
+ * Registry entries (`tag:<pattern>` or `key:<pattern>`) of the given tags and dependency keys.
+ */
+function patternsOf(tags: string[], keys: string[]): string[] {
+  return [
+    ...tags.filter((tag) => tag.includes("*")).map((tag) => `tag:${tag}`),
+    ...keys.filter((key) => key.includes("*")).map((key) => `key:${key}`),
+  ];
+}
+
+function parsePattern(entry: string): ["tag" | "key", string] {
+  const separator = entry.indexOf(":");
+  return [entry.slice(0, separator) === "key" ? "key" : "tag", entry.slice(separator + 1)];
+}
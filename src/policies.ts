@@ -0,0 +1,43 @@
+import type { CachePolicy, CachePolicyOptions } from "./types";
+import { matchPattern, normalizeTables } from "./utils";
+
+/**
+ * TTL policies of a query: `false` when any of them disables caching.
+ */
+export type ResolvedPolicy = false | Exclude<CachePolicy, false>[];
+
+/**
+ * Per-table and per-tag-pattern policies from `UnstorageCacheOptions.policies`.
+ */
+export class CachePolicies {
+  private readonly tables = new Map<string, CachePolicy>();
+  private readonly tags: [pattern: string, policy: CachePolicy][];
+
+  constructor(options: CachePolicyOptions = {}) {
+    const tables = options.tables ?? {};
+    const entries = Symbol.iterator in tables ? Array.from(tables) : Object.entries(tables);
+    for (const [table, policy] of entries) {
+      for (const name of normalizeTables(table)) this.tables.set(name, policy);
+    }
+    this.tags = Object.entries(options.tags ?? {});
+  }
+
+  resolve(tables: string[], tag?: string): ResolvedPolicy {
+    const policies: Exclude<CachePolicy, false>[] = [];
+    const add = (policy: CachePolicy | undefined): boolean => {
+      if (policy === false) return false;
+      if (policy) policies.push(policy);
+      return true;
+    };
+
+    for (const table of tables) {
+      if (!add(this.tables.get(table))) return false;
+    }
+    if (tag !== undefined) {
+      for (const [pattern, policy] of this.tags) {
+        if (matchPattern(pattern, tag) && !add(policy)) return false;
+      }
+    }
+    return policies;
+  }
+}
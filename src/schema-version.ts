@@ -0,0 +1,56 @@
+import {
+  createTableRelationsHelpers,
+  getTableColumns,
+  getTableName,
+  is,
+  One,
+  Relations,
+  Table,
+} from "drizzle-orm";
+import { hashQuery } from "drizzle-orm/cache/core";
+
+/**
+ * Derives a `schemaVersion` from a Drizzle schema object (tables and relations), so adding
+ * a column or changing a relation yields a new version.
+ *
+ * ```ts
+ * import * as schema from "./schema"
+ *
+ * const cache = unstorageCache({ storage, schemaVersion: await schemaVersion(schema) })
+ * ```
+ */
+export async function schemaVersion(schema: Record<string, unknown>): Promise<string> {
+  const shape = Object.entries(schema)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([name, value]) => {
+      if (is(value, Table)) return [[name, describeTable(value)]];
+      if (is(value, Relations)) return [[name, describeRelations(value)]];
+      return [];
+    });
+  return hashQuery(JSON.stringify(shape));
+}
+
+function describeTable(table: Table): unknown[] {
+  const columns = Object.entries(getTableColumns(table)).map(([key, column]) => [
+    key,
+    column.name,
+    column.columnType,
+    column.notNull,
+    column.primary,
+    column.hasDefault,
+  ]);
+  return [getTableName(table), columns];
+}
+
+function describeRelations(relations: Relations): unknown[] {
+  const config = relations.config(createTableRelationsHelpers(relations.table));
+  return [
+    getTableName(relations.table),
+    Object.entries(config).map(([key, relation]) => [
+      key,
+      is(relation, One) ? "one" : "many",
+      relation.referencedTableName,
+      relation.relationName,
+    ]),
+  ];
+}
@@ -0,0 +1,68 @@
+import type { CacheSerializer } from "./types";
+
+const TYPE_MARKER = "__uncache__"; // marks a JSON object that stands for a non-JSON value
+
+type Tagged = { [TYPE_MARKER]: "Date" | "BigInt" | "Uint8Array" | "Map" | "Set"; v: unknown };
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  // `value` already went through `toJSON` (Date, Buffer), so read the original from the holder
+  const raw = this[key];
+  if (raw instanceof Date) return { [TYPE_MARKER]: "Date", v: raw.getTime() } satisfies Tagged;
+  if (typeof raw === "bigint") {
+    return { [TYPE_MARKER]: "BigInt", v: raw.toString() } satisfies Tagged;
+  }
+  if (raw instanceof Uint8Array) {
+    return { [TYPE_MARKER]: "Uint8Array", v: toBase64(raw) } satisfies Tagged;
+  }
+  if (raw instanceof Map) return { [TYPE_MARKER]: "Map", v: Array.from(raw) } satisfies Tagged;
+  if (raw instanceof Set) return { [TYPE_MARKER]: "Set", v: Array.from(raw) } satisfies Tagged;
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== "object" || !(TYPE_MARKER in value)) return value;
+  const tagged = value as Tagged;
+  switch (tagged[TYPE_MARKER]) {
+    case "Date":
+      return new Date(tagged.v as number);
+    case "BigInt":
+      return BigInt(tagged.v as string);
+    case "Uint8Array":
+      return fromBase64(tagged.v as string);
+    case "Map":
+      return new Map(tagged.v as [unknown, unknown][]);
+    case "Set":
+      return new Set(tagged.v as unknown[]);
+    default:
+      return value;
+  }
+}
+
+/**
+ * JSON serializer that round-trips `Date`, `bigint`, `Uint8Array`/`Buffer`, `Map` and `Set`.
+ *
+ * Values are stored as a JSON string, so the driver never sees non-JSON types.
+ * `Buffer` values come back as plain `Uint8Array`.
+ */
+export const typedJsonSerializer: CacheSerializer = {
+  id: "typed-json@1",
+  encode: (value) => JSON.stringify(value, replacer),
+  decode: (value) => JSON.parse(value as string, reviver),
+};
@@ -0,0 +1,146 @@
+import type { Storage } from "unstorage";
+import type { SingleFlightOptions } from "./types";
+import { sleep } from "./utils";
+
+const DEFAULT_WAIT_MS = 1000;
+const DEFAULT_POLL_MS = 50;
+const LOCK_PREFIX = "__LOCK__"; // distributed single-flight lease keys prefix
+
+type Flight = {
+  startedAt: number;
+  done: Promise<void>;
+  resolve: () => void;
+};
+
+/** Runs a lease storage call, e.g. through the circuit breaker */
+type Guard = <T>(operation: () => Promise<T>) => Promise<T>;
+
+type Lease = {
+  owner: string;
+  expiresAt: number;
+};
+
+/**
+ * Coordinates concurrent misses of the same key so only one caller populates it.
+ *
+ * The first caller that misses becomes the leader and gets `undefined` back,
+ * everyone else waits for the leader's `put` (or `waitMs`) and then re-reads.
+ * With `lock` enabled, a lease key in the shared storage extends this across instances;
+ * lease reads and writes while waiting go through `guard`. `settle` runs within `put`,
+ * so its calls are already guarded there.
+ */
+export class SingleFlight {
+  private readonly storage: Storage;
+  private readonly waitMs: number;
+  private readonly pollMs: number;
+  private readonly lock: boolean;
+  private readonly guard: Guard;
+  private readonly owner = crypto.randomUUID();
+  private readonly flights = new Map<string, Flight>();
+
+  constructor(
+    storage: Storage,
+    options: SingleFlightOptions = {},
+    guard: Guard = (operation) => operation(),
+  ) {
+    this.storage = storage;
+    this.guard = guard;
+    this.waitMs = options.waitMs ?? DEFAULT_WAIT_MS;
+    this.pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+    this.lock = options.lock === true;
+  }
+
+  /**
+   * Called after a miss. Returns `undefined` when the caller should populate the entry,
+   * or the value another caller populated meanwhile.
+   */
+  async wait(
+    flightKey: string,
+    read: () => Promise<unknown[] | undefined>,
+  ): Promise<unknown[] | undefined> {
+    const now = Date.now();
+    const pending = this.flights.get(flightKey);
+    if (pending && pending.startedAt + this.waitMs > now) {
+      await Promise.race([pending.done, sleep(pending.startedAt + this.waitMs - now)]);
+      return read();
+    }
+
+    // registered before the lease round-trip, so concurrent local misses join this flight
+    let resolve: () => void = () => {};
+    const done = new Promise<void>((r) => {
+      resolve = r;
+    });
+    const flight: Flight = { startedAt: now, done, resolve };
+    this.flights.set(flightKey, flight);
+
+    if (!this.lock) return undefined;
+    try {
+      if (await this.acquireLease(flightKey, now)) return undefined;
+      const value = await this.poll(flightKey, read, now + this.waitMs);
+      // another instance populated the entry: wake up local followers; otherwise this caller leads
+      if (value !== undefined) this.finish(flightKey, flight);
+      return value;
+    } catch (error) {
+      // a failed lease call leaves this caller without the entry: do not keep local followers waiting
+      this.finish(flightKey, flight);
+      throw error;
+    }
+  }
+
+  /**
+   * Called after the entry was written (or dropped). Wakes up waiting callers and releases the lease.
+   */
+  async settle(flightKey: string): Promise<void> {
+    const flight = this.flights.get(flightKey);
+    if (flight) this.finish(flightKey, flight);
+    if (!this.lock) return;
+
+    const lease = await this.storage.getItem<Lease>(this.leaseKey(flightKey));
+    if (lease?.owner === this.owner) {
+      await this.storage.removeItem(this.leaseKey(flightKey));
+    }
+  }
+
+  private finish(flightKey: string, flight: Flight): void {
+    if (this.flights.get(flightKey) === flight) this.flights.delete(flightKey);
+    flight.resolve();
+  }
+
+  private async poll(
+    flightKey: string,
+    read: () => Promise<unknown[] | undefined>,
+    deadline: number,
+  ): Promise<unknown[] | undefined> {
+    while (Date.now() < deadline) {
+      await sleep(this.pollMs);
+      const value = await read();
+      if (value !== undefined) return value;
+
+      const lease = await this.guard(() => this.storage.getItem<Lease>(this.leaseKey(flightKey)));
+      if (!lease || lease.expiresAt <= Date.now()) return undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Best-effort lease: unstorage has no atomic set-if-absent, so two instances may
+   * both win a race here. That only costs a duplicate `put`, never a wrong value.
+   */
+  private acquireLease(flightKey: string, now: number): Promise<boolean> {
+    return this.guard(async () => {
+      const key = this.leaseKey(flightKey);
+      const lease = await this.storage.getItem<Lease>(key);
+      if (lease && lease.owner !== this.owner && lease.expiresAt > now) {
+        return false;
+      }
+
+      const value: Lease = { owner: this.owner, expiresAt: now + this.waitMs };
+      await this.storage.setItem(key, value, { ttl: Math.max(1, Math.ceil(this.waitMs / 1000)) });
+      return true;
+    });
+  }
+
+  private leaseKey(flightKey: string): string {
+    return `${LOCK_PREFIX}:${flightKey}`;
+  }
+}
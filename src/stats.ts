@@ -0,0 +1,100 @@
+import type { CacheCounters, CacheStats } from "./types";
+
+/**
+ * Tables and tag a counted operation belongs to.
+ */
+export type StatsScope = {
+  tables: string[];
+  tag?: string | undefined;
+};
+
+function emptyStats(): CacheStats {
+  return {
+    hits: { l1: 0, l2: 0 },
+    staleHits: 0,
+    misses: 0,
+    expirations: 0,
+    puts: 0,
+    bytesWritten: 0,
+    invalidations: { tables: 0, tags: 0 },
+  };
+}
+
+function emptyCounters(): CacheCounters {
+  return { hits: 0, misses: 0, puts: 0, invalidations: 0 };
+}
+
+export class StatsCollector {
+  private readonly breakdown: boolean;
+  private stats = emptyStats();
+  private byTable = new Map<string, CacheCounters>();
+  private byTag = new Map<string, CacheCounters>();
+
+  constructor(breakdown: boolean) {
+    this.breakdown = breakdown;
+  }
+
+  hit(tier: "l1" | "l2", stale: boolean, scope: StatsScope): void {
+    this.stats.hits[tier]++;
+    if (stale) this.stats.staleHits++;
+    this.count(scope, "hits");
+  }
+
+  miss(expired: boolean, scope: StatsScope): void {
+    this.stats.misses++;
+    if (expired) this.stats.expirations++;
+    this.count(scope, "misses");
+  }
+
+  put(bytes: number, scope: StatsScope): void {
+    this.stats.puts++;
+    this.stats.bytesWritten += bytes;
+    this.count(scope, "puts");
+  }
+
+  invalidate(tables: string[], tags: string[]): void {
+    this.stats.invalidations.tables += tables.length;
+    this.stats.invalidations.tags += tags.length;
+    if (!this.breakdown) return;
+    for (const table of tables) this.counters(this.byTable, table).invalidations++;
+    for (const tag of tags) this.counters(this.byTag, tag).invalidations++;
+  }
+
+  snapshot(): CacheStats {
+    const snapshot: CacheStats = {
+      ...this.stats,
+      hits: { ...this.stats.hits },
+      invalidations: { ...this.stats.invalidations },
+    };
+    if (this.breakdown) {
+      snapshot.byTable = Object.fromEntries(
+        Array.from(this.byTable, ([table, counters]) => [table, { ...counters }]),
+      );
+      snapshot.byTag = Object.fromEntries(
+        Array.from(this.byTag, ([tag, counters]) => [tag, { ...counters }]),
+      );
+    }
+    return snapshot;
+  }
+
+  reset(): void {
+    this.stats = emptyStats();
+    this.byTable = new Map();
+    this.byTag = new Map();
+  }
+
+  private count(scope: StatsScope, counter: "hits" | "misses" | "puts"): void {
+    if (!this.breakdown) return;
+    for (const table of scope.tables) this.counters(this.byTable, table)[counter]++;
+    if (scope.tag !== undefined) this.counters(this.byTag, scope.tag)[counter]++;
+  }
+
+  private counters(map: Map<string, CacheCounters>, name: string): CacheCounters {
+    let counters = map.get(name);
+    if (!counters) {
+      counters = emptyCounters();
+      map.set(name, counters);
+    }
+    return counters;
+  }
+}
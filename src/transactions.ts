@@ -0,0 +1,100 @@
+import type { AsyncLocalStorage } from "node:async_hooks";
+import { matchPattern } from "./utils";
+
+type Scope = {
+  tables: Set<string>;
+  tags: Set<string>;
+  keys: Set<string>;
+  parent: Scope | undefined;
+};
+
+type Mutated = { tables: string[]; tags: string[]; keys: string[] };
+
+let scopes: Promise<AsyncLocalStorage<Scope>> | undefined;
+
+// imported on first use, so runtimes without `node:async_hooks` work as long as no scope is opened
+function loadScopes(): Promise<AsyncLocalStorage<Scope>> {
+  scopes ??= import("node:async_hooks").then(({ AsyncLocalStorage }) => new AsyncLocalStorage());
+  return scopes;
+}
+
+/**
+ * Tracks tables and tags mutated inside `run` scopes (async context), so their invalidation
+ * can wait for the transaction to commit.
+ */
+export class DeferredInvalidations {
+  private storage: AsyncLocalStorage<Scope> | undefined;
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Records a mutation (of tables, tags or dependency keys) in the current scope.
+   * Returns `false` outside of any scope.
+   */
+  record(tables: string[], tags: string[], keys: string[] = []): boolean {
+    const scope = this.storage?.getStore();
+    if (!scope) return false;
+    for (const table of tables) scope.tables.add(table);
+    for (const tag of tags) scope.tags.add(tag);
+    for (const key of keys) scope.keys.add(key);
+    return true;
+  }
+
+  /**
+   * Whether the current scope (or an enclosing one) mutated one of `tables`, `tag`
+   * or dependency `keys` (directly or through a pattern).
+   */
+  touches(tables: string[], tag?: string, keys: string[] = []): boolean {
+    for (let scope = this.storage?.getStore(); scope; scope = scope.parent) {
+      if (tables.some((table) => scope.tables.has(table))) return true;
+      for (const pattern of scope.keys) {
+        if (keys.some((key) => matchPattern(pattern, key))) return true;
+      }
+      if (tag === undefined) continue;
+      for (const pattern of scope.tags) if (matchPattern(pattern, tag)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Runs `fn` in a new scope. Its mutations are returned once `fn` resolves, or merged into
+   * the enclosing scope when nested; they are discarded when `fn` throws.
+   */
+  async run<T>(fn: () => Promise<T>): Promise<{ result: T; mutated: Mutated | undefined }> {
+    this.storage ??= await loadScopes();
+    const parent = this.storage.getStore();
+    const scope: Scope = { tables: new Set(), tags: new Set(), keys: new Set(), parent };
+
+    const result = await this.storage.run(scope, fn);
+    if (parent) {
+      for (const table of scope.tables) parent.tables.add(table);
+      for (const tag of scope.tags) parent.tags.add(tag);
+      for (const key of scope.keys) parent.keys.add(key);
+      return { result, mutated: undefined };
+    }
+    return {
+      result,
+      mutated: {
+        tables: Array.from(scope.tables),
+        tags: Array.from(scope.tags),
+        keys: Array.from(scope.keys),
+      },
+    };
+  }
+
+  /**
+   * Runs `fn` after `ms` milliseconds, outside of any scope.
+   */
+  later(ms: number, fn: () => Promise<void>): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      void (this.storage ? this.storage.exit(fn) : fn());
+    }, ms);
+    timer.unref?.();
+    this.timers.add(timer);
+  }
+
+  dispose(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+}
@@ -1,10 +1,455 @@
+import type { Table } from "drizzle-orm";
+import type { MutationOption } from "drizzle-orm/cache/core";
 import type { CacheConfig } from "drizzle-orm/cache/core/types";
 import type { Driver, Storage } from "unstorage";
 
 export type CacheEntry = {
   value: unknown;
   expiresAt?: number;
+  staleUntil?: number;
   tables?: string[];
+  /** Dependency keys attached with `dependsOn` */
+  dependencies?: string[];
+  /** Additional tags attached with `withTags` */
+  tags?: string[];
+  codec?: string;
+  /** `schemaVersion` of the writer */
+  schemaVersion?: string;
+  /** When the value was written (with `earlyRefresh`) */
+  computedAt?: number;
+  /** Milliseconds between the miss and the `put` of the value (with `earlyRefresh`) */
+  computeMs?: number;
+  compression?: CompressionAlgorithm;
+};
+
+export type CompressionAlgorithm = "gzip" | "deflate" | "brotli";
+
+export type CompressionOptions = {
+  /**
+   * @defaults "gzip"
+   */
+  algorithm?: CompressionAlgorithm;
+  /**
+   * Minimum payload size in bytes before a value is compressed.
+   *
+   * @defaults 1024
+   */
+  threshold?: number;
+};
+
+/**
+ * A cached query or tag to read with `getMany`, mirroring the arguments of `get`.
+ */
+export type CacheLookup = {
+  /** Query hash or tag */
+  key: string;
+  tables?: string[];
+  isTag?: boolean;
+  isAutoInvalidate?: boolean;
+};
+
+/**
+ * Entry description returned by the administration methods.
+ */
+export type CacheEntryInfo = {
+  /** Query hash or tag */
+  key: string;
+  keyEnc: string;
+  /** Key inside storage, relative to `base` */
+  storageKey: string;
+  isTag: boolean;
+  autoInvalidate: boolean;
+  tables: string[];
+  dependencies: string[];
+  /** Additional tags attached with `withTags` */
+  tags: string[];
+  expiresAt: number | undefined;
+  staleUntil: number | undefined;
+  /** Approximate size (JSON length) of the stored entry */
+  size: number;
+};
+
+export type SweepResult = {
+  /** Expired (or, in "version" strategy, outdated) value keys */
+  entries: number;
+  /** Index and dependency keys whose value key is gone or expired */
+  indexKeys: number;
+  /** Tag-map keys whose value key is gone */
+  tagMaps: number;
+  /** Total removed keys */
+  removed: number;
+};
+
+export type CacheSerializer = {
+  /**
+   * Codec id stored with every entry. Entries written with another id are treated as misses.
+   */
+  id: string;
+  encode: (value: unknown) => unknown;
+  decode: (value: unknown) => unknown;
+};
+
+export type EarlyRefreshOptions = {
+  /**
+   * Scales how early entries are refreshed; above `1` favors earlier refreshes.
+   *
+   * @defaults 1
+   */
+  beta?: number;
+};
+
+export type SingleFlightOptions = {
+  /**
+   * Max milliseconds a caller waits for another caller to populate the same key
+   * before querying the database itself.
+   *
+   * @defaults 1000
+   */
+  waitMs?: number;
+  /**
+   * Milliseconds between re-reads while waiting for another instance.
+   *
+   * @defaults 50
+   */
+  pollMs?: number;
+  /**
+   * Coordinate across instances with a lease key stored in `storage` (under `__LOCK__`).
+   * Use with a shared driver. Disabled by default.
+   */
+  lock?: boolean;
+};
+
+export type LocalTierOptions = {
+  /**
+   * Max number of keys kept in memory.
+   *
+   * @defaults 1000
+   */
+  maxEntries?: number;
+  /**
+   * Max approximate size in bytes (JSON length) of all values kept in memory.
+   * Unlimited by default.
+   */
+  maxBytes?: number;
+  /**
+   * Max seconds a key is kept in memory, bounding how long other instances' mutations go unnoticed.
+   * By default keys live until the entry's own `expiresAt`.
+   */
+  ttl?: number;
+};
+
+/**
+ * TTL applied to queries reading a table or stored under a tag, or `false` to never cache them.
+ */
+export type CachePolicy = false | Pick<CacheConfig, "ex" | "px" | "exat" | "pxat">;
+
+export type CachePolicyOptions = {
+  /**
+   * Policies by table name. Use a `Map` (or `[table, policy]` pairs) to key them by Drizzle `Table`.
+   */
+  tables?: Record<string, CachePolicy> | Iterable<readonly [Table | string, CachePolicy]>;
+  /**
+   * Policies by tag pattern, where `*` matches any characters (e.g. `"user:*"`).
+   */
+  tags?: Record<string, CachePolicy>;
+};
+
+export type EvictionPolicy = "lru" | "lfu";
+
+export type EvictionOptions = {
+  /**
+   * Max total approximate size in bytes (JSON length) of cached entries.
+   * Checked against a running total of this instance's writes and removals; metadata is read
+   * back (and the total recomputed) once per namespace and whenever the total is over budget.
+   */
+  maxBytes?: number;
+  /**
+   * Max number of cached entries. Checked against a running count the same way as `maxBytes`.
+   */
+  maxEntries?: number;
+  /**
+   * Which entries go first: least recently used or least frequently used.
+   *
+   * @defaults "lru"
+   */
+  policy?: EvictionPolicy;
+};
+
+export type ResilienceOptions = {
+  /**
+   * Milliseconds before a `get`, `put` or `onMutate` storage call is abandoned.
+   *
+   * @defaults 1000
+   */
+  timeoutMs?: number;
+  /**
+   * Consecutive failures that open the circuit.
+   *
+   * @defaults 5
+   */
+  failureThreshold?: number;
+  /**
+   * Seconds the cache is bypassed once the circuit is open.
+   *
+   * @defaults 30
+   */
+  cooldown?: number;
+  /**
+   * Rethrow invalidation failures from `onMutate` (and fail while the circuit is open),
+   * so the write fails instead of risking stale reads.
+   */
+  strictInvalidation?: boolean;
+};
+
+export type DurableInvalidationOptions = {
+  /**
+   * Milliseconds before the first retry of a failed cleanup, doubled on every attempt.
+   *
+   * @defaults 100
+   */
+  retryDelayMs?: number;
+  /**
+   * Upper bound for the retry delay in milliseconds.
+   *
+   * @defaults 30000
+   */
+  maxRetryDelayMs?: number;
+};
+
+export type CacheCounters = {
+  hits: number;
+  misses: number;
+  puts: number;
+  invalidations: number;
+};
+
+export type CacheStats = {
+  hits: {
+    /** Served from the in-process tier */
+    l1: number;
+    /** Served from `storage` */
+    l2: number;
+  };
+  /** Hits served from the stale window (also counted in `hits`) */
+  staleHits: number;
+  misses: number;
+  /** Misses caused by an expired entry (also counted in `misses`) */
+  expirations: number;
+  puts: number;
+  /** Approximate size (JSON length) of written entries */
+  bytesWritten: number;
+  invalidations: {
+    tables: number;
+    tags: number;
+  };
+  /** Only with `stats.breakdown` */
+  byTable?: Record<string, CacheCounters>;
+  /** Only with `stats.breakdown` */
+  byTag?: Record<string, CacheCounters>;
+};
+
+type CacheEventBase = {
+  /** Query hash or tag as passed by Drizzle */
+  key: string;
+  /** `key` as it appears in storage keys */
+  keyEnc: string;
+  tables: string[];
+  isTag: boolean;
+  /** Milliseconds since the operation started */
+  durationMs: number;
+};
+
+export type CacheHitEvent = CacheEventBase & {
+  tier: "l1" | "l2";
+  /** Served from the stale window */
+  stale: boolean;
+  expiresAt: number | undefined;
+};
+
+export type CacheMissEvent = CacheEventBase & {
+  /**
+   * - `missing`: no entry (or one written with another codec)
+   * - `expired`: entry past its lifetime, also emitted as `expired`
+   * - `refresh`: stale entry this reader should refresh
+   * - `decode`: entry could not be decoded
+   * - `error`: storage failed, timed out or the circuit is open (with `resilience`)
+   * - `pending`: a table or tag of the entry has an unfinished invalidation (with `durableInvalidation`)
+   * - `version`: entry written with another `schemaVersion`
+   * - `early`: entry close to `expiresAt` picked for an early refresh (with `earlyRefresh`)
+   */
+  reason: "missing" | "expired" | "refresh" | "decode" | "error" | "pending" | "version" | "early";
+};
+
+export type CacheExpiredEvent = CacheEventBase & {
+  expiresAt: number | undefined;
+};
+
+export type CachePutEvent = CacheEventBase & {
+  ttlSeconds: number | undefined;
+  expiresAt: number | undefined;
+  /** Approximate size (JSON length) of the written entry */
+  bytes: number;
+};
+
+export type CacheDropEvent = Omit<CacheEventBase, "durationMs">;
+
+export type CacheSkipEvent = CacheEventBase & {
+  /**
+   * - `size`: the entry exceeded `maxEntryBytes`
+   * - `empty`: the response was empty and `emptyResults` is `false`
+   */
+  reason: "size" | "empty";
+  /** Approximate size (JSON length) of the skipped entry */
+  bytes: number;
+};
+
+export type CacheEvictEvent = CacheDropEvent & {
+  /** Approximate size (JSON length) of the evicted entry */
+  bytes: number;
+  policy: EvictionPolicy;
+};
+
+export type CacheInvalidateEvent = Omit<CacheEventBase, "key" | "keyEnc"> & {
+  /** Invalidated tag, `undefined` for table invalidations */
+  key: string | undefined;
+  keyEnc: string | undefined;
+  /** Removed value keys (or bumped generations in "version" strategy) */
+  removed: number;
+};
+
+export type CacheErrorEvent = {
+  operation: "get" | "put" | "invalidate";
+  error: unknown;
+  /** Query hash or tag, `undefined` for table invalidations */
+  key: string | undefined;
+  tables: string[];
+  isTag: boolean;
+};
+
+export type CacheEventMap = {
+  hit: CacheHitEvent;
+  miss: CacheMissEvent;
+  expired: CacheExpiredEvent;
+  put: CachePutEvent;
+  drop: CacheDropEvent;
+  skip: CacheSkipEvent;
+  evict: CacheEvictEvent;
+  invalidate: CacheInvalidateEvent;
+  error: CacheErrorEvent;
+};
+
+export type CacheEventName = keyof CacheEventMap;
+
+export type CacheEventListener<E extends CacheEventName> = (event: CacheEventMap[E]) => void;
+
+export type InvalidationMessage = {
+  /** Id of the publishing cache instance */
+  source: string;
+  /** Namespace the invalidation applies to, see the `namespace` option */
+  namespace?: string | undefined;
+  tables: string[];
+  tags: string[];
+  /** Dependency keys (`dependsOn`), `*` patterns included; absent in messages of older versions */
+  keys?: string[] | undefined;
+};
+
+export type InvalidationListener = (message: InvalidationMessage) => void | Promise<void>;
+
+/**
+ * Delivers `onMutate` and key invalidations to every cache instance.
+ */
+export type InvalidationTransport = {
+  publish: (message: InvalidationMessage) => void | Promise<void>;
+  /**
+   * Returns a function that stops the subscription.
+   * Failures outside of `publish` calls (reading or delivering a message) go to `onError`.
+   */
+  subscribe: (
+    listener: InvalidationListener,
+    onError?: (error: unknown, message?: InvalidationMessage) => void,
+  ) => (() => void | Promise<void>) | Promise<() => void | Promise<void>>;
+};
+
+export type InvalidationOptions = {
+  transport: InvalidationTransport;
+  /**
+   * Also apply received invalidations to `storage`.
+   * Enable when `storage` is process-local (memory, lru-cache); shared storage is already
+   * invalidated by the publishing instance.
+   */
+  applyToStorage?: boolean;
+};
+
+type WarmupBase = {
+  /**
+   * Tables the query reads. Omit for query builders to use the builder's own tables.
+   */
+  tables?: MutationOption["tables"];
+  /**
+   * Store the entry with its tables, so mutations invalidate it (as `$withCache({ autoInvalidate })`).
+   *
+   * @defaults true
+   */
+  autoInvalidate?: boolean;
+  /**
+   * TTL config passed to `put`.
+   */
+  config?: CacheConfig;
+  /**
+   * Warm again after `onMutate` invalidates one of `tables` (or the tag).
+   *
+   * @defaults true
+   */
+  onInvalidate?: boolean;
+};
+
+/**
+ * Key + tables + loader tuple registered for warming.
+ */
+export type WarmupLoader = WarmupBase & {
+  /** Query hash or tag the result is stored under */
+  key: string;
+  isTag?: boolean;
+  load: () => Promise<unknown>;
+};
+
+/**
+ * Structural subset of a Drizzle select builder used for warming.
+ */
+export type WarmableQuery = {
+  toSQL: () => { sql: string; params: unknown[] };
+  execute: () => Promise<unknown>;
+};
+
+/**
+ * Drizzle query builder registered for warming. The result is stored under the same key
+ * Drizzle uses: `tag` when given, otherwise the hash of the query SQL and params.
+ */
+export type WarmupQuery = WarmupBase & {
+  query: WarmableQuery;
+  tag?: string;
+};
+
+export type WarmupOptions = {
+  /**
+   * Max loaders running at the same time.
+   *
+   * @defaults 4
+   */
+  concurrency?: number;
+  /**
+   * Milliseconds to wait after `onMutate` before warming, giving the mutation time to commit.
+   *
+   * @defaults 100
+   */
+  delayMs?: number;
+};
+
+export type WarmupResult = {
+  /** Keys loaded and stored */
+  refreshed: string[];
+  /** Keys whose loader or `put` threw, `undefined` when hashing the query threw */
+  failed: { key: string | undefined; error: unknown }[];
 };
 
 export type UnstorageCacheOptions = {
@@ -25,6 +470,24 @@ export type UnstorageCacheOptions = {
    * Defaults to `dc`.
    */
   base?: string;
+  /**
+   * Resolves the namespace (e.g. tenant id) of the current request, e.g. from an `AsyncLocalStorage`.
+   *
+   * - Value, index, tag-map and marker keys are stored under `<base>:<namespace>`, `undefined` uses `base` itself
+   * - `onMutate` only invalidates the current namespace
+   * - Administration methods act on the current namespace, see `runInNamespace` and `purgeNamespace`
+   * - `sweepInterval` only sweeps the root namespace, sweep others with `runInNamespace(namespace, () => sweep())`
+   * - `eviction` budgets apply to the root namespace and each namespace separately
+   */
+  namespace?: () => string | undefined;
+  /**
+   * Version of the row shapes cached by this app, e.g. a release id or `await schemaVersion(schema)`.
+   *
+   * - Keys are stored under `<base>:@<schemaVersion>`, so deploys with another version never read (or overwrite) them
+   * - Versions are registered under `__SCHEMA__`, and `onMutate` also invalidates the other registered versions (one extra `getKeys` per mutation)
+   * - `purgeVersions()` removes the keys of previous versions in bulk
+   */
+  schemaVersion?: string;
   /**
    * Default TTL config applied when a query does not provide one.
    *
@@ -36,12 +499,165 @@ export type UnstorageCacheOptions = {
    * - TTL options are still passed to the driver when possible, and `expiresAt` still controls cache validity on read
    */
   config?: CacheConfig;
+  /**
+   * Declarative TTL policies by table and tag pattern.
+   *
+   * - A TTL given at the call site (`$withCache({ config })`) wins, then policies, then `config`
+   * - For multi-table queries (or tags matching several patterns) the shortest TTL wins
+   * - `false` bypasses the cache for a table or tag, even with `global: true`
+   * - Table policies need the query tables in `put`, so they do not apply to `autoInvalidate: false` queries
+   */
+  policies?: CachePolicyOptions;
+  /**
+   * Seconds an entry may still be served after `expiresAt` (stale-while-revalidate).
+   *
+   * - The first `get` that sees a stale entry reports a miss, so Drizzle re-runs the query and `put`s a fresh value
+   * - Other reads keep receiving the stale value until that `put` lands
+   * - The entry is removed only once the stale window has passed as well
+   *
+   * Disabled by default.
+   */
+  staleTtl?: number;
+  /**
+   * Shortens every computed TTL by a random share of up to `ttlJitter` percent,
+   * so entries written in a burst do not expire at the same instant.
+   *
+   * - `10` spreads a 60 seconds TTL over 54 to 60 seconds; TTLs are never extended
+   * - TTLs reused with `keepTtl` are not jittered again
+   */
+  ttlJitter?: number;
+  /**
+   * Probabilistic early expiration (XFetch): a `get` close to `expiresAt` is sometimes reported
+   * as a miss (reason `early`), the more likely the longer the value took to compute (`true` uses defaults).
+   *
+   * - The compute time is measured from a miss to the `put` of the same key on the same instance,
+   *   and stored in the entry with the time it was computed
+   * - Entries without a measured compute time (e.g. written by `warm()`) are never refreshed early
+   */
+  earlyRefresh?: boolean | EarlyRefreshOptions;
+  /**
+   * Negative caching: how empty responses (`[]`) are cached.
+   *
+   * - A TTL (`{ ex: 5 }`) caps their lifetime; the shorter of it and the regular TTL wins
+   * - `false` never caches them, emitting a `skip` event instead
+   * - Empty entries are indexed like any other, so a write to their tables clears them right away
+   *
+   * Cached with the regular TTL by default.
+   */
+  emptyResults?: CachePolicy;
+  /**
+   * Skip caching responses whose entry exceeds this approximate size in bytes (JSON length,
+   * after serialization and compression). Skipped writes emit a `skip` event.
+   */
+  maxEntryBytes?: number;
+  /**
+   * Total budget for cached entries, for drivers without native eviction (memory, fs).
+   *
+   * - Size and access metadata of every entry is kept under `__META__`, next to the index keys
+   * - `put` evicts least recently (`"lru"`) or least frequently (`"lfu"`) used entries until the budget fits
+   * - Every hit updates the metadata, adding a read and a write per hit
+   * - Evicted entries emit `evict` (and `drop`) events
+   */
+  eviction?: EvictionOptions;
+  /**
+   * Fail open when `storage` is down (`true` uses defaults).
+   *
+   * - `get` errors and timeouts are reported as misses, so Drizzle queries the database
+   * - `put` and `onMutate` errors are emitted as `error` events instead of being thrown
+   * - After repeated failures the circuit opens and the cache is bypassed for `cooldown` seconds
+   * - `strictInvalidation` keeps `onMutate` failures fatal; as Drizzle runs `onMutate` alongside the write,
+   *   only a surrounding transaction turns that into a failed write
+   */
+  resilience?: boolean | ResilienceOptions;
+  /**
+   * Coalesce concurrent misses of the same key (stampede protection).
+   *
+   * - The first caller that misses queries the database and `put`s the result
+   * - Concurrent callers wait for that `put` and re-read instead of hitting the database
+   * - `true` enables in-process coordination with default options
+   */
+  singleFlight?: boolean | SingleFlightOptions;
+  /**
+   * Encodes `CacheEntry.value` before it is written and decodes it on read.
+   *
+   * - Without a serializer values are stored as-is and rely on the driver's JSON handling
+   * - `typedJsonSerializer` round-trips `Date`, `bigint`, `Uint8Array`/`Buffer`, `Map` and `Set`
+   * - Entries written with a different codec (or none) are treated as misses
+   */
+  serializer?: CacheSerializer;
+  /**
+   * Compress large values before writing them (uses `node:zlib`).
+   *
+   * - Values are compressed only when their JSON payload reaches `threshold` bytes
+   * - The algorithm is recorded in the entry, so reads decompress automatically
+   * - Compressed and uncompressed entries can coexist, whatever the reader's own setting
+   * - `true` enables gzip with the default threshold
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * In-process LRU tier kept in front of `storage` (`true` uses defaults).
+   *
+   * - Entries keep their `expiresAt`, so the local tier never outlives the shared one
+   * - Entries are kept as JSON like in `storage`, so callers mutating rows never alter cached ones
+   * - `onMutate` clears affected keys locally too, so this instance never serves stale rows after its own writes
+   * - Mutations made by other instances are not seen locally until `ttl` or `expiresAt` passes
+   */
+  local?: boolean | LocalTierOptions;
+  /**
+   * Cross-instance invalidation bus.
+   *
+   * - `onMutate` publishes the invalidated tables and tags after cleaning up
+   * - Every instance subscribes and drops the affected keys from its local tier
+   * - Messages published by the instance itself are ignored
+   */
+  invalidation?: InvalidationOptions;
+  /**
+   * Record invalidations before cleaning up, so a half-finished `onMutate` is retried
+   * and never serves stale entries (`true` uses defaults).
+   *
+   * - Every invalidated table, tag and dependency key gets a marker key under `__PENDING__`, removed once cleanup succeeded
+   * - Failed cleanups are retried with exponential backoff and emitted as `error` events, `onMutate` resolves
+   * - `get` reports entries of a table, tag or dependency key with a marker as misses, which costs one extra
+   *   `getItems` per `get` and another one for entries stored with `withTags` or `dependsOn`
+   * - Tag and dependency key patterns share one registry key (`__PENDING__:patterns`), read along with the markers
+   * - Call `retryPendingInvalidations()` at startup to finish invalidations of crashed instances, in every namespace
+   */
+  durableInvalidation?: boolean | DurableInvalidationOptions;
+  /**
+   * How `onMutate` invalidates tables.
+   *
+   * - `"index"` (default): scans the per-table index keys and deletes every matching entry
+   * - `"version"`: keeps a generation per table in `storage` and embeds it in value keys,
+   *   so invalidation is a single write and old entries become unreachable until their TTL removes them
+   *
+   * Both strategies use separate key prefixes, so switching never serves entries of the other one.
+   */
+  invalidationStrategy?: "index" | "version";
+  /**
+   * Options for `getStats()` counters.
+   */
+  stats?: {
+    /**
+     * Also count hits, misses, puts and invalidations per table and per tag.
+     * Keep disabled when tags are unbounded (e.g. per-user), as every name gets its own counters.
+     */
+    breakdown?: boolean;
+  };
+  /**
+   * Run `sweep()` every `sweepInterval` seconds to reclaim expired and orphaned keys.
+   * Useful for drivers without native TTL (fs, memory). Stopped by `dispose()`.
+   */
+  sweepInterval?: number;
+  /**
+   * Options for queries registered with `register()` and refreshed by `warm()` or after `onMutate`.
+   */
+  warmup?: WarmupOptions;
   /**
    * Cache every query by default.
    */
   global?: boolean;
   /**
-   * When `true`, logs HIT/MISS/PUT/INVALIDATE to console.
+   * When `true`, logs HIT/MISS/PUT/INVALIDATE to console (a built-in event subscriber).
    */
   debug?: boolean;
 };
@@ -1,42 +1,311 @@
-import { entityKind } from "drizzle-orm";
+import { entityKind, getTableName, type SQL, type Table } from "drizzle-orm";
 import type { MutationOption } from "drizzle-orm/cache/core";
 import { Cache } from "drizzle-orm/cache/core";
 import type { CacheConfig } from "drizzle-orm/cache/core/types";
 import type { Storage, StorageValue } from "unstorage";
 import { createStorage, prefixStorage } from "unstorage";
-import type { CacheEntry, UnstorageCacheOptions } from "./types";
+import { CacheUnavailableError, CircuitBreaker } from "./circuit-breaker";
+import { compress, decompress } from "./compression";
+import { getDependencies, getTags, rowKeys } from "./dependencies";
+import { CacheEvents, subscribeDebugLogger } from "./events";
+import { LocalTier } from "./local-tier";
+import { Namespaces } from "./namespaces";
+import { PENDING_PREFIX, PendingInvalidations } from "./pending";
+import { CachePolicies, type ResolvedPolicy } from "./policies";
+import { SingleFlight } from "./single-flight";
+import { StatsCollector, type StatsScope } from "./stats";
+import { DeferredInvalidations } from "./transactions";
+import type {
+  CacheEntry,
+  CacheEntryInfo,
+  CacheErrorEvent,
+  CacheEventListener,
+  CacheEventName,
+  CacheLookup,
+  CacheMissEvent,
+  CachePolicy,
+  CacheSerializer,
+  CacheStats,
+  CompressionAlgorithm,
+  EvictionPolicy,
+  InvalidationMessage,
+  InvalidationOptions,
+  SweepResult,
+  UnstorageCacheOptions,
+  WarmupLoader,
+  WarmupQuery,
+  WarmupResult,
+} from "./types";
 import {
+  byteLength,
+  chunk,
   decodeTablesKey,
   encode,
   makeTablesKey,
+  matchPattern,
   normalizeTables,
   normalizeTags,
+  parseDependencyKey,
   parseIndexKey,
+  parseValueKey,
   pickConfigWithTtl,
 } from "./utils";
+import { Warmer } from "./warmer";
 
 const DEFAULT_TTL_MS = 1000;
+const STALE_REFRESH_LEASE_MS = 10_000; // how long a single reader owns the refresh of a stale entry
+const MAX_COMPUTE_MS = 60_000; // misses not followed by a `put` within this window are not timed
+const MAX_TRACKED_MISSES = 1000; // bound of the miss timestamps kept for `earlyRefresh`
+const MAX_TRACKED_QUERIES = 1000; // bound of the `autoInvalidate: false` query tables kept for `put`
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+const SWEEP_BATCH_SIZE = 100; // keys read per `getItems` call while sweeping
 const DEFAULT_BASE = "drizzle:cache"; // prefix for all keys
 const VALUE_AUTO_PREFIX = "__CT__"; // auto invalidation keys prefix
 const VALUE_NON_AUTO_PREFIX = "__NAI__"; // without auto invalidation keys prefix
+const VALUE_VERSIONED_PREFIX = "__CTV__"; // auto invalidation keys prefix in "version" strategy
 const INDEX_PREFIX = "__CTS__"; // tables/tags index keys prefix
 const TAG_MAP_PREFIX = "__tagsMap__"; // tags keys prefix
+const VERSION_PREFIX = "__VER__"; // per-table generation keys prefix
+const META_PREFIX = "__META__"; // per-entry size and access metadata prefix, used by eviction
+const DEPENDENCY_PREFIX = "__DEP__"; // dependency keys (`dependsOn`) index prefix
+const TAG_INDEX_PREFIX = "__TAGS__"; // additional tags (`withTags`) index prefix
+const SCHEMA_PREFIX = "__SCHEMA__"; // live schema versions registry prefix (outside version keyspaces)
+
+type ReadContext = {
+  key: string;
+  keyEnc: string;
+  tables: string[];
+  isTag: boolean;
+  startedAt: number;
+  held?: HeldOutcome | undefined;
+};
+
+/** Outcome of a coalesced `get`: misses are held back until it is known whether a re-read hits */
+type HeldOutcome = {
+  startedAt: number;
+  miss?: { ctx: ReadContext; reason: CacheMissEvent["reason"]; entry: CacheEntry | undefined };
+};
+
+/** Storage items read ahead by `getMany`, `null` when absent */
+type Prefetched = Map<string, StorageValue>;
+
+type EntryMeta = {
+  bytes: number;
+  /** Last write or hit */
+  at: number;
+  hits: number;
+};
+
+/** Running `eviction` totals of a namespace */
+type BudgetTotals = { bytes: number; entries: number };
 
 export class UnstorageCache extends Cache {
   static override readonly [entityKind]: string = "UnstorageCache";
 
-  private readonly storage: Storage;
+  /**
+   * Identifies this instance on the invalidation bus.
+   */
+  readonly instanceId = crypto.randomUUID();
+  /**
+   * Name of the storage driver, when the storage exposes it.
+   */
+  readonly driverName: string | undefined;
+
+  private readonly root: Storage;
+  private readonly namespaces: Namespaces;
+  private readonly namespaced = new Map<string, Storage>();
+  private readonly schemaVersion: string | undefined;
+  private schemaRegistered: Promise<void> | undefined;
   private readonly useGlobally: boolean;
   private readonly defaultConfig: CacheConfig | undefined;
+  private readonly policies: CachePolicies;
+  private readonly staleTtlMs: number;
+  private readonly ttlJitter: number;
+  private readonly earlyRefresh: { beta: number } | undefined;
+  private readonly missedAt = new Map<string, number>();
+  // tables of `autoInvalidate: false` queries by flight key, which Drizzle omits in `put`
+  private readonly queriedTables = new Map<string, string[]>();
+  private readonly versioned: boolean;
+  private readonly serializer: CacheSerializer | undefined;
+  private readonly compression: { algorithm: CompressionAlgorithm; threshold: number } | undefined;
   private readonly debug: boolean;
+  private readonly maxEntryBytes: number | undefined;
+  private readonly emptyResults: CachePolicy | undefined;
+  private readonly eviction:
+    | { maxBytes: number | undefined; maxEntries: number | undefined; policy: EvictionPolicy }
+    | undefined;
+  private readonly singleFlight: SingleFlight | undefined;
+  private readonly breaker: CircuitBreaker | undefined;
+  private readonly strictInvalidation: boolean;
+  private readonly local: LocalTier | undefined;
+  private readonly stats: StatsCollector;
+  private readonly events = new CacheEvents();
+  private readonly invalidation: InvalidationOptions | undefined;
+  private readonly pending: PendingInvalidations | undefined;
+  private readonly unsubscribe: Promise<(() => void | Promise<void>) | undefined> | undefined;
+  private readonly refreshing = new Map<string, number>();
+  // running `eviction` totals per namespace prefix, see `enforceBudget`
+  private readonly budget = new Map<string, BudgetTotals>();
+  private readonly sweepTimer: ReturnType<typeof setInterval> | undefined;
+  private readonly warmer: Warmer;
+  private readonly deferred = new DeferredInvalidations();
 
   constructor(storage: Storage, options: Omit<UnstorageCacheOptions, "storage" | "driver"> = {}) {
     super();
     const base = options.base ?? DEFAULT_BASE;
-    this.storage = prefixStorage(storage, base);
+    this.root = prefixStorage(storage, base);
+    this.schemaVersion = options.schemaVersion;
+    this.namespaces = new Namespaces(options.namespace, this.schemaVersion);
+    this.driverName = storage.getMount?.("")?.driver.name;
     this.useGlobally = options.global ?? false;
     this.defaultConfig = options.config;
+    this.policies = new CachePolicies(options.policies);
+    this.staleTtlMs = Math.max(0, (options.staleTtl ?? 0) * 1000);
+    this.ttlJitter = Math.min(100, Math.max(0, options.ttlJitter ?? 0)) / 100;
+    const earlyRefresh = options.earlyRefresh === true ? {} : options.earlyRefresh || undefined;
+    this.earlyRefresh = earlyRefresh ? { beta: earlyRefresh.beta ?? 1 } : undefined;
+    this.versioned = options.invalidationStrategy === "version";
+    this.serializer = options.serializer;
+    const compression = options.compression === true ? {} : options.compression || undefined;
+    this.compression = compression
+      ? {
+          algorithm: compression.algorithm ?? "gzip",
+          threshold: compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD,
+        }
+      : undefined;
     this.debug = options.debug === true;
+    this.maxEntryBytes = options.maxEntryBytes;
+    this.emptyResults = options.emptyResults;
+    this.eviction = options.eviction
+      ? {
+          maxBytes: options.eviction.maxBytes,
+          maxEntries: options.eviction.maxEntries,
+          policy: options.eviction.policy ?? "lru",
+        }
+      : undefined;
+    this.stats = new StatsCollector(options.stats?.breakdown === true);
+    this.singleFlight = options.singleFlight
+      ? new SingleFlight(
+          this.root,
+          options.singleFlight === true ? {} : options.singleFlight,
+          (operation) => this.guard(operation),
+        )
+      : undefined;
+    const resilience = options.resilience === true ? {} : options.resilience || undefined;
+    this.breaker = resilience
+      ? new CircuitBreaker(resilience, (open) => this.log(`CIRCUIT ${open ? "OPEN" : "CLOSED"}`))
+      : undefined;
+    this.strictInvalidation = resilience?.strictInvalidation === true;
+    this.local = options.local
+      ? new LocalTier(options.local === true ? {} : options.local)
+      : undefined;
+    this.invalidation = options.invalidation;
+    this.pending = options.durableInvalidation
+      ? new PendingInvalidations(
+          () => this.storage,
+          (tables, tags, keys) => this.cleanup(tables, tags, keys),
+          (error, tables) => this.reportError("invalidate", error, undefined, tables, false),
+          options.durableInvalidation === true ? {} : options.durableInvalidation,
+        )
+      : undefined;
+    this.unsubscribe = this.invalidation
+      ? Promise.resolve(
+          this.invalidation.transport.subscribe(
+            (message) => this.onInvalidation(message),
+            (error, message) =>
+              this.reportError("invalidate", error, undefined, message?.tables ?? [], false),
+          ),
+        ).catch((error: unknown) => {
+          this.reportError("invalidate", error, undefined, [], false);
+          return undefined;
+        })
+      : undefined;
+    this.sweepTimer = options.sweepInterval
+      ? setInterval(() => {
+          this.sweep().catch((error: unknown) => {
+            this.log(`SWEEP failed ${error instanceof Error ? error.message : String(error)}`);
+          });
+        }, options.sweepInterval * 1000)
+      : undefined;
+    this.sweepTimer?.unref?.();
+    this.warmer = new Warmer(
+      (key, response, tables, isTag, config) =>
+        this.guard(() => this.write(key, response, tables, isTag, config)),
+      options.warmup,
+    );
+    if (this.debug) {
+      subscribeDebugLogger(this.events, (message) => this.log(message), this.local !== undefined);
+    }
+  }
+
+  /**
+   * Stops listening to the invalidation bus, the periodic sweep, scheduled warming
+   * and invalidation retries.
+   */
+  async dispose(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.warmer.dispose();
+    this.pending?.dispose();
+    this.deferred.dispose();
+    const unsubscribe = await this.unsubscribe;
+    await unsubscribe?.();
+  }
+
+  /**
+   * Runs `fn` (e.g. administration methods) in `namespace` instead of the resolved one.
+   */
+  runInNamespace<T>(namespace: string | undefined, fn: () => Promise<T>): Promise<T> {
+    return this.namespaces.run(namespace, fn);
+  }
+
+  /**
+   * Removes every key of `namespace` (e.g. a tenant). Returns the number of removed keys.
+   */
+  purgeNamespace(namespace: string): Promise<number> {
+    return this.namespaces.run(namespace, () => this.purgeAll());
+  }
+
+  /**
+   * Removes the keys of every schema version but the current one and `keep`, e.g. once all
+   * instances of a previous deploy are gone. Returns the number of removed keys.
+   */
+  async purgeVersions(keep: string[] = []): Promise<number> {
+    const live = new Set(this.schemaVersion !== undefined ? [...keep, this.schemaVersion] : keep);
+    const isStale = (key: string) =>
+      key.startsWith("@") && !live.has(decodeURIComponent(key.slice(1, key.indexOf(":"))));
+    const keys = (await this.root.getKeys()).filter(isStale);
+    await Promise.all(keys.map((key) => this.root.removeItem(key)));
+
+    const registered = await this.root.getKeys(`${SCHEMA_PREFIX}:`);
+    await Promise.all(
+      registered
+        .filter((key) => !live.has(decodeURIComponent(key.slice(SCHEMA_PREFIX.length + 1))))
+        .map((key) => this.root.removeItem(key)),
+    );
+    this.log(`PURGE VERSIONS removed=${keys.length}`);
+    return keys.length;
+  }
+
+  /**
+   * Counters since this instance was created or `resetStats` was last called.
+   */
+  getStats(): CacheStats {
+    return this.stats.snapshot();
+  }
+
+  resetStats(): void {
+    this.stats.reset();
+  }
+
+  /**
+   * Subscribes to a cache lifecycle event. Returns a function that unsubscribes.
+   */
+  on<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<E extends CacheEventName>(event: E, listener: CacheEventListener<E>): void {
+    this.events.off(event, listener);
   }
 
   override strategy(): "explicit" | "all" {
@@ -48,24 +317,101 @@ export class UnstorageCache extends Cache {
     tables: string[],
     isTag: boolean,
     isAutoInvalidate?: boolean,
+  ): Promise<unknown[] | undefined> {
+    return this.lookup(key, tables, isTag, isAutoInvalidate);
+  }
+
+  /**
+   * Reads several cached queries or tags at once, like `get` for each of them.
+   *
+   * Storage reads are batched with `getItems`: one round-trip for query entries and tag maps,
+   * one more for the entries of tags (and none for keys served by the local tier).
+   */
+  async getMany(lookups: CacheLookup[]): Promise<(unknown[] | undefined)[]> {
+    const prefetched: Prefetched = new Map();
+    try {
+      await this.guard(() => this.prefetch(lookups, prefetched));
+    } catch (error) {
+      if (!this.breaker) throw error;
+      // each lookup reports its own failure below
+      prefetched.clear();
+    }
+    return Promise.all(
+      lookups.map(({ key, tables = [], isTag = false, isAutoInvalidate }) =>
+        this.lookup(key, tables, isTag, isAutoInvalidate, prefetched),
+      ),
+    );
+  }
+
+  private async lookup(
+    key: string,
+    tables: string[],
+    isTag: boolean,
+    isAutoInvalidate?: boolean,
+    prefetched?: Prefetched,
+  ): Promise<unknown[] | undefined> {
+    const tag = isTag ? key : undefined;
+    if (isAutoInvalidate === false && tables.length) this.trackTables(isTag, encode(key), tables);
+    if (this.policies.resolve(tables, tag) === false || this.deferred.touches(tables, tag)) {
+      this.log(`BYPASS ${isTag ? "tag" : "query"} ${key}`);
+      return undefined;
+    }
+
+    const startedAt = performance.now();
+    // a follower may miss and re-read several times: only its final outcome is recorded
+    const held: HeldOutcome | undefined = this.singleFlight ? { startedAt } : undefined;
+    try {
+      const read = () => this.guard(() => this.read(key, tables, isTag, isAutoInvalidate, held));
+      const value = await this.guard(() =>
+        this.read(key, tables, isTag, isAutoInvalidate, held, prefetched),
+      );
+      if (value !== undefined || !this.singleFlight) return value;
+
+      const result = await this.singleFlight.wait(this.flightKey(isTag, encode(key)), read);
+      if (result === undefined && held?.miss) {
+        this.recordMiss(held.miss.ctx, held.miss.reason, held.miss.entry);
+      }
+      return result;
+    } catch (error) {
+      if (!this.breaker) throw error;
+      this.reportError("get", error, key, tables, isTag);
+      return this.miss({ key, keyEnc: encode(key), tables, isTag, startedAt }, "error");
+    }
+  }
+
+  private async read(
+    key: string,
+    tables: string[],
+    isTag: boolean,
+    isAutoInvalidate?: boolean,
+    held?: HeldOutcome,
+    prefetched?: Prefetched,
   ): Promise<unknown[] | undefined> {
     const keyEnc = encode(key);
+    const startedAt = held?.startedAt ?? performance.now();
+    const ctx: ReadContext = { key, keyEnc, tables, isTag, startedAt, held };
 
     if (isTag) {
-      const mapValue = await this.storage.getItem<string>(this.tagMapKey(keyEnc));
+      const mapValue = await this.getTagMap(keyEnc, prefetched);
       if (!mapValue) {
-        this.log(`MISS tag ${key}`);
-        return undefined;
+        return this.miss(ctx, "missing");
       }
 
       const autoInvalidate = mapValue !== "NAI";
       const tablesKey = autoInvalidate ? mapValue : undefined;
-      const valueKey = this.valueKey(autoInvalidate, true, keyEnc, tablesKey);
-      const entry = await this.storage.getItem<CacheEntry>(valueKey);
-
-      if (!entry) {
-        this.log(`MISS tag ${key}`);
-        return undefined;
+      const [pending, found] = await Promise.all([
+        this.pending?.isPending(decodeTablesKey(tablesKey), [key]),
+        this.findEntry(autoInvalidate, true, keyEnc, tablesKey, prefetched),
+      ]);
+      if (pending) {
+        return this.miss(ctx, "pending");
+      }
+      const { valueKey, entry, tier } = found;
+      if (!valueKey || !entry || !this.matchesCodec(entry)) {
+        return this.miss(ctx, "missing");
+      }
+      if (await this.isInvalidating(entry)) {
+        return this.miss(ctx, "pending");
       }
 
       if (this.isExpired(entry)) {
@@ -75,26 +421,32 @@ export class UnstorageCache extends Cache {
           isTag,
           keyEnc,
           tablesKey: tablesKey ?? undefined,
+          valueKey,
           entry,
           fallbackTables,
           removeTagMap: true,
         });
-        this.log(`EXPIRED tag ${key}`);
-        return undefined;
+        return this.miss(ctx, "expired", entry);
       }
 
-      this.log(`HIT tag ${key}`);
-      return entry.value as unknown[] | undefined;
+      return this.serve(entry, valueKey, tier, ctx);
     }
 
     const autoInvalidate = isAutoInvalidate ?? tables.length > 0;
     const tablesKey = autoInvalidate ? makeTablesKey(tables) : undefined;
-    const valueKey = this.valueKey(autoInvalidate, false, keyEnc, tablesKey);
-
-    const entry = await this.storage.getItem<CacheEntry>(valueKey);
-    if (!entry) {
-      this.log(`MISS query ${key}`);
-      return undefined;
+    const [pending, found] = await Promise.all([
+      autoInvalidate ? this.pending?.isPending(tables, []) : false,
+      this.findEntry(autoInvalidate, false, keyEnc, tablesKey, prefetched),
+    ]);
+    if (pending) {
+      return this.miss(ctx, "pending");
+    }
+    const { valueKey, entry, tier } = found;
+    if (!valueKey || !entry || !this.matchesCodec(entry)) {
+      return this.miss(ctx, "missing");
+    }
+    if (await this.isInvalidating(entry)) {
+      return this.miss(ctx, "pending");
     }
 
     if (this.isExpired(entry)) {
@@ -103,15 +455,14 @@ export class UnstorageCache extends Cache {
         isTag: false,
         keyEnc,
         tablesKey: tablesKey ?? undefined,
+        valueKey,
         entry,
         fallbackTables: tables,
       });
-      this.log(`EXPIRED query ${key}`);
-      return undefined;
+      return this.miss(ctx, "expired", entry);
     }
 
-    this.log(`HIT query ${key}`);
-    return entry.value as unknown[] | undefined;
+    return this.serve(entry, valueKey, tier, ctx);
   }
 
   override async put(
@@ -121,15 +472,51 @@ export class UnstorageCache extends Cache {
     isTag: boolean,
     config?: CacheConfig,
   ): Promise<void> {
-    const autoInvalidate = tables.length > 0;
+    try {
+      await this.guard(() => this.write(key, response, tables, isTag, config));
+    } catch (error) {
+      if (!this.breaker) throw error;
+      this.reportError("put", error, key, tables, isTag);
+    }
+  }
+
+  private async write(
+    key: string,
+    response: unknown,
+    tables: string[],
+    isTag: boolean,
+    config?: CacheConfig,
+  ): Promise<void> {
+    const startedAt = performance.now();
+    const tag = isTag ? key : undefined;
+    const dependencies = getDependencies(config);
+    const extraTags = getTags(config);
     const keyEnc = encode(key);
+    const queried = this.takeQueriedTables(isTag, keyEnc);
+    const policyTables = tables.length ? tables : queried;
+    const policy = this.policies.resolve(policyTables, tag);
+    // rows read after a write in an open transaction may never be committed
+    if (policy === false || this.deferred.touches(policyTables, tag, dependencies)) return;
+
+    const autoInvalidate = tables.length > 0;
     const tablesKey = autoInvalidate ? makeTablesKey(tables) : undefined;
-    const valueKey = this.valueKey(autoInvalidate, isTag, keyEnc, tablesKey);
+    const versionsKey =
+      this.versioned && tablesKey ? await this.ensureVersionsKey(tablesKey) : undefined;
+    const valueKey = this.valueKey(autoInvalidate, isTag, keyEnc, tablesKey, versionsKey);
 
     const now = Date.now();
     const keepTtl = config?.keepTtl === true;
     const existing = keepTtl ? await this.storage.getItem<CacheEntry>(valueKey) : undefined;
-    const expiresAt = this.toExpiresAt(now, config, existing?.expiresAt);
+    const empty = Array.isArray(response) && response.length === 0;
+    const { expiresAt, staleUntil } = this.toExpiresAt(
+      now,
+      policy,
+      config,
+      existing ?? undefined,
+      empty,
+    );
+    const computeMs = this.computeMs(isTag, keyEnc, now);
+    this.refreshing.delete(this.scopedKey(valueKey));
 
     if (expiresAt !== undefined && expiresAt <= now) {
       await this.dropEntry({
@@ -137,26 +524,74 @@ export class UnstorageCache extends Cache {
         isTag,
         keyEnc,
         tablesKey: tablesKey ?? undefined,
+        valueKey,
         fallbackTables: tables,
       });
+      await this.singleFlight?.settle(this.flightKey(isTag, keyEnc));
       return;
     }
 
-    const ttlSeconds =
-      expiresAt !== undefined ? Math.max(1, Math.ceil((expiresAt - now) / 1000)) : undefined;
+    const removeAt = staleUntil ?? expiresAt;
+    const ttlSeconds = ttlSecondsUntil(removeAt, now);
 
     const entry: CacheEntry = {
-      value: response,
+      ...(await this.encodeValue(response)),
       ...(expiresAt !== undefined ? { expiresAt } : {}),
+      ...(staleUntil !== undefined ? { staleUntil } : {}),
       ...(autoInvalidate ? { tables } : {}),
+      ...(dependencies.length ? { dependencies } : {}),
+      ...(extraTags.length ? { tags: extraTags } : {}),
+      ...(this.schemaVersion !== undefined ? { schemaVersion: this.schemaVersion } : {}),
+      ...(computeMs !== undefined ? { computedAt: now, computeMs } : {}),
     };
+    const bytes = byteLength(JSON.stringify(entry) ?? "");
+
+    const skip =
+      empty && this.emptyResults === false
+        ? "empty"
+        : this.maxEntryBytes !== undefined && bytes > this.maxEntryBytes
+          ? "size"
+          : undefined;
+    if (skip) {
+      // a previous (stale) value must not outlive the refresh that replaced it
+      await this.dropEntry({
+        autoInvalidate,
+        isTag,
+        keyEnc,
+        tablesKey: tablesKey ?? undefined,
+        valueKey,
+        fallbackTables: tables,
+      });
+      await this.singleFlight?.settle(this.flightKey(isTag, keyEnc));
+      this.events.emit("skip", {
+        key,
+        keyEnc,
+        tables,
+        isTag,
+        durationMs: performance.now() - startedAt,
+        reason: skip,
+        bytes,
+      });
+      return;
+    }
 
     const writes: { key: string; value: StorageValue }[] = [{ key: valueKey, value: entry }];
+    // an overwritten entry is replaced in the running totals, not added
+    const previous = this.budget.has(this.namespaces.prefix())
+      ? await this.storage.getItem<EntryMeta>(this.metaKey(valueKey))
+      : null;
+    if (this.eviction) {
+      const meta: EntryMeta = { bytes, at: now, hits: 0 };
+      writes.push({ key: this.metaKey(valueKey), value: meta });
+    }
 
     if (autoInvalidate && tablesKey) {
-      const indexKeys = tables.map((table) => this.indexKey(table, tablesKey, isTag, keyEnc));
+      // "version" strategy makes entries unreachable by bumping table generations instead
+      const indexKeys = this.versioned
+        ? []
+        : tables.map((table) => this.indexKey(table, tablesKey, isTag, keyEnc));
       for (const indexKey of indexKeys) {
-        writes.push({ key: indexKey, value: expiresAt ?? 1 });
+        writes.push({ key: indexKey, value: removeAt ?? 1 });
       }
       if (isTag) {
         writes.push({ key: this.tagMapKey(keyEnc), value: tablesKey });
@@ -164,80 +599,717 @@ export class UnstorageCache extends Cache {
     } else if (isTag) {
       writes.push({ key: this.tagMapKey(keyEnc), value: "NAI" });
     }
+    for (const dependency of dependencies) {
+      writes.push({
+        key: this.dependencyKey(dependency, tablesKey, isTag, keyEnc),
+        value: removeAt ?? 1,
+      });
+    }
+    for (const extraTag of extraTags) {
+      writes.push({
+        key: this.dependencyKey(extraTag, tablesKey, isTag, keyEnc, TAG_INDEX_PREFIX),
+        value: removeAt ?? 1,
+      });
+    }
 
+    await this.registerSchemaVersion();
     await this.setMany(writes, ttlSeconds);
-    this.log(`PUT ${isTag ? "tag" : "query"} ${key} ttlSeconds=${ttlSeconds ?? "none"}`);
+    this.local?.set(this.scopedKey(valueKey), entry, removeAt);
+    if (isTag) {
+      this.local?.set(
+        this.scopedKey(this.tagMapKey(keyEnc)),
+        autoInvalidate && tablesKey ? tablesKey : "NAI",
+      );
+    }
+    await this.singleFlight?.settle(this.flightKey(isTag, keyEnc));
+    this.trackBudget(bytes - (previous?.bytes ?? 0), previous ? 0 : 1);
+    await this.enforceBudget(valueKey);
+
+    this.stats.put(bytes, isTag ? { tables, tag: key } : { tables });
+    this.events.emit("put", {
+      key,
+      keyEnc,
+      tables,
+      isTag,
+      durationMs: performance.now() - startedAt,
+      ttlSeconds,
+      expiresAt,
+      bytes,
+    });
   }
 
   override async onMutate(params: MutationOption): Promise<void> {
     const tags = normalizeTags(params.tags);
     const tables = Array.from(new Set(normalizeTables(params.tables)));
+    await this.mutate(tables, tags, []);
+  }
+
+  /**
+   * Invalidates `tables`, `tags` and dependency `keys`, or records them in the open
+   * `deferInvalidation` scope. Returns the number of entries dropped through `keys`.
+   */
+  private async mutate(tables: string[], tags: string[], keys: string[]): Promise<number> {
+    if (this.deferred.record(tables, tags, keys)) {
+      this.log(`DEFER tables=${tables.join(",")} tags=${tags.join(",")} keys=${keys.join(",")}`);
+      return 0;
+    }
+
+    let removed = 0;
+    try {
+      removed = await this.guard(() => this.invalidate(tables, tags, keys));
+    } catch (error) {
+      if (!this.breaker || this.strictInvalidation) throw error;
+      this.reportError("invalidate", error, undefined, tables, false);
+    }
+    if (tables.length || tags.length) {
+      this.stats.invalidate(tables, tags);
+      this.warmer.schedule(tables, tags, (result) => this.logWarm(result));
+    }
+    return removed;
+  }
+
+  /**
+   * Runs `fn` (typically a `db.transaction` call) and defers every `onMutate` made inside it
+   * until `fn` resolves, i.e. after commit. Mutations are dropped when `fn` throws (rollback).
+   *
+   * - Reads and writes of mutated tables/tags bypass the cache until the scope ends
+   * - Nested calls are flushed with the outermost one
+   * - `reinvalidateAfterMs` invalidates again after a delay, dropping entries repopulated
+   *   from pre-commit data by concurrent readers
+   */
+  async deferInvalidation<T>(
+    fn: () => Promise<T>,
+    options: { reinvalidateAfterMs?: number } = {},
+  ): Promise<T> {
+    const { result, mutated } = await this.deferred.run(fn);
+    if (!mutated) return result;
+    const { tables, tags, keys } = mutated;
+    if (!tables.length && !tags.length && !keys.length) return result;
+
+    await this.mutate(tables, tags, keys);
+    if (options.reinvalidateAfterMs !== undefined) {
+      this.deferred.later(options.reinvalidateAfterMs, () =>
+        this.mutate(tables, tags, keys).then(
+          () => undefined,
+          (error: unknown) => {
+            this.log(`INVALIDATE failed ${error instanceof Error ? error.message : String(error)}`);
+          },
+        ),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Registers a query builder or a key + tables + loader tuple for warming.
+   * Returns a function that unregisters it.
+   *
+   * Query builders are executed with Drizzle's cache disabled (`$withCache(false)`),
+   * their results are stored here under the key Drizzle would use.
+   */
+  register(entry: WarmupLoader | WarmupQuery): () => void {
+    return this.warmer.register(entry);
+  }
+
+  /**
+   * Loads registered queries (all, or only those reading `tables`) and stores them through `put`.
+   */
+  async warm(
+    options: { tables?: MutationOption["tables"]; concurrency?: number } = {},
+  ): Promise<WarmupResult> {
+    const tables = options.tables !== undefined ? normalizeTables(options.tables) : undefined;
+    const result = await this.warmer.warm(tables, options.concurrency);
+    this.logWarm(result);
+    return result;
+  }
+
+  /**
+   * Lists cached entries, optionally only those depending on `table`.
+   */
+  async listEntries(
+    options: { table?: MutationOption["tables"]; limit?: number } = {},
+  ): Promise<CacheEntryInfo[]> {
+    const tables = normalizeTables(options.table);
+    const keys = tables.length ? await this.valueKeysForTables(tables) : await this.valueKeys();
+    const selected = options.limit !== undefined ? keys.slice(0, options.limit) : keys;
+    const infos = await Promise.all(selected.map((key) => this.describe(key)));
+    return infos.filter((info) => info !== undefined);
+  }
+
+  /**
+   * Looks up a single cached query or tag.
+   * Pass the query `tables` when known, otherwise query entries are found by scanning value keys.
+   */
+  async inspect(
+    key: string,
+    options: { isTag?: boolean; tables?: string[] } = {},
+  ): Promise<CacheEntryInfo | undefined> {
+    const keyEnc = encode(key);
+
+    if (options.isTag) {
+      const mapValue = await this.storage.getItem<string>(this.tagMapKey(keyEnc));
+      if (!mapValue) return undefined;
+      const autoInvalidate = mapValue !== "NAI";
+      const valueKey = await this.resolveValueKey(
+        autoInvalidate,
+        true,
+        keyEnc,
+        autoInvalidate ? mapValue : undefined,
+      );
+      return valueKey ? this.describe(valueKey) : undefined;
+    }
+
+    if (options.tables) {
+      const autoInvalidate = options.tables.length > 0;
+      const tablesKey = autoInvalidate ? makeTablesKey(options.tables) : undefined;
+      const valueKey = await this.resolveValueKey(autoInvalidate, false, keyEnc, tablesKey);
+      return valueKey ? this.describe(valueKey) : undefined;
+    }
+
+    const valueKey = (await this.valueKeys()).find((candidate) => {
+      const parsed = parseValueKey(candidate);
+      return parsed !== undefined && !parsed.isTag && parsed.keyEnc === keyEnc;
+    });
+    return valueKey ? this.describe(valueKey) : undefined;
+  }
+
+  /**
+   * Deletes a single cached query or tag with its index keys. Returns whether it existed.
+   */
+  async deleteEntry(
+    key: string,
+    options: { isTag?: boolean; tables?: string[] } = {},
+  ): Promise<boolean> {
+    const info = await this.inspect(key, options);
+    const parsed = info && parseValueKey(info.storageKey);
+    if (!info || !parsed) return false;
+
+    await this.dropEntry({
+      autoInvalidate: parsed.autoInvalidate,
+      isTag: parsed.isTag,
+      keyEnc: parsed.keyEnc,
+      tablesKey: parsed.tablesKey,
+      valueKey: info.storageKey,
+      fallbackTables: info.tables,
+      removeTagMap: true,
+    });
+    return true;
+  }
+
+  /**
+   * Drops every entry depending on `tables` without recording a mutation.
+   */
+  async purgeTables(tables: MutationOption["tables"]): Promise<void> {
+    await this.invalidate(Array.from(new Set(normalizeTables(tables))), [], []);
+  }
 
-    await Promise.all([this.invalidateTags(tags), this.invalidateTables(tables)]);
+  /**
+   * Drops entries cached under `tags` without recording a mutation.
+   * Tags containing `*` are patterns, e.g. `tenant:7:*`.
+   */
+  async purgeTags(tags: MutationOption["tags"]): Promise<void> {
+    await this.invalidate([], normalizeTags(tags), []);
+  }
+
+  /**
+   * Drops entries stored with any of `keys` as dependency (see `dependsOn`),
+   * leaving other entries of their tables cached. Keys containing `*` are patterns, e.g. `users:*`.
+   *
+   * Goes through the same path as `onMutate` (`resilience`, `durableInvalidation` and
+   * `deferInvalidation` apply). Returns the number of dropped entries, `0` when deferred.
+   */
+  async invalidateKeys(keys: string[]): Promise<number> {
+    return this.mutate([], [], Array.from(new Set(keys)));
+  }
+
+  /**
+   * Invalidates the rows matched by `where` through `invalidateKeys` when `rowKeys` can derive
+   * their keys, and the whole table and its dependency keys (`<table>:*`) otherwise.
+   */
+  async invalidateRows(table: Table, where: SQL | undefined): Promise<void> {
+    const keys = rowKeys(table, where);
+    if (keys) {
+      await this.invalidateKeys(keys);
+      return;
+    }
+    const name = getTableName(table);
+    await this.mutate([name], [], [`${name}:*`]);
+  }
+
+  /**
+   * Removes every key under `base` (or the current namespace), including index, tag-map
+   * and generation keys. Returns the number of removed keys.
+   */
+  async purgeAll(): Promise<number> {
+    const storage = this.storage;
+    const keys = await storage.getKeys();
+    await Promise.all(keys.map((key) => storage.removeItem(key)));
+    const prefix = this.scopedKey("");
+    if (prefix) {
+      this.local?.deleteWhere((key) => key.startsWith(prefix));
+      for (const key of this.refreshing.keys()) {
+        if (key.startsWith(prefix)) this.refreshing.delete(key);
+      }
+      for (const key of this.budget.keys()) {
+        if (key.startsWith(prefix)) this.budget.delete(key);
+      }
+    } else {
+      this.local?.clear();
+      this.refreshing.clear();
+      this.budget.clear();
+    }
+    this.log(`PURGE removed=${keys.length}`);
+    return keys.length;
+  }
+
+  /**
+   * Removes expired entries and orphaned index/tag-map keys.
+   *
+   * Drivers without native TTL (fs, memory) otherwise only drop entries when `get` reads them
+   * after expiry, and index keys may outlive their value key on drivers that expire keys natively.
+   */
+  async sweep(): Promise<SweepResult> {
+    const now = Date.now();
+    const result: SweepResult = { entries: 0, indexKeys: 0, tagMaps: 0, removed: 0 };
+
+    // expired values first, so their index and tag-map keys are orphaned below
+    for (const keys of chunk(await this.valueKeys(), SWEEP_BATCH_SIZE)) {
+      const items = await this.storage.getItems(keys);
+      const current = await this.currentVersionKeys(keys);
+      for (const { key, value } of items) {
+        const entry = value as CacheEntry | null;
+        const versionsKey = parseValueKey(key)?.versionsKey;
+        const outdated = versionsKey !== undefined && current.get(key) !== versionsKey;
+        if (!entry || (!outdated && !this.isExpired(entry))) continue;
+        await this.removeItem(key);
+        result.entries++;
+      }
+    }
+
+    const indexKeys = [
+      ...(await this.storage.getKeys(`${INDEX_PREFIX}:`)),
+      ...(await this.storage.getKeys(`${DEPENDENCY_PREFIX}:`)),
+      ...(await this.storage.getKeys(`${TAG_INDEX_PREFIX}:`)),
+    ];
+    for (const keys of chunk(indexKeys, SWEEP_BATCH_SIZE)) {
+      const valueKeys = new Map<string, string>();
+      for (const indexKey of keys) {
+        const valueKey = await this.indexedValueKey(indexKey);
+        if (valueKey) valueKeys.set(indexKey, valueKey);
+      }
+      const [indexItems, valueItems] = await Promise.all([
+        this.storage.getItems(keys),
+        this.storage.getItems(Array.from(new Set(valueKeys.values()))),
+      ]);
+      const existing = new Set(valueItems.filter((item) => item.value).map((item) => item.key));
+      for (const { key, value } of indexItems) {
+        const valueKey = valueKeys.get(key);
+        const expired = typeof value === "number" && value > 1 && value <= now;
+        if (valueKey && existing.has(valueKey) && !expired) continue;
+        await this.removeItem(key);
+        result.indexKeys++;
+      }
+    }
+
+    for (const tagMapKey of await this.storage.getKeys(`${TAG_MAP_PREFIX}:`)) {
+      const keyEnc = tagMapKey.slice(TAG_MAP_PREFIX.length + 1);
+      const mapValue = await this.storage.getItem<string>(tagMapKey);
+      const autoInvalidate = mapValue !== "NAI";
+      const valueKey = mapValue
+        ? await this.resolveValueKey(
+            autoInvalidate,
+            true,
+            keyEnc,
+            autoInvalidate ? mapValue : undefined,
+          )
+        : undefined;
+      if (valueKey && (await this.storage.hasItem(valueKey))) continue;
+      await this.removeItem(tagMapKey);
+      result.tagMaps++;
+    }
+
+    result.removed = result.entries + result.indexKeys + result.tagMaps;
+    this.log(
+      `SWEEP removed=${result.removed} entries=${result.entries} index=${result.indexKeys} tagMaps=${result.tagMaps}`,
+    );
+    return result;
+  }
+
+  /**
+   * Finishes invalidations left pending by failed cleanups or crashed instances
+   * (with `durableInvalidation`), in every namespace of the current schema version.
+   * Returns the number of retried tables and tags.
+   */
+  async retryPendingInvalidations(): Promise<number> {
+    const pending = this.pending;
+    if (!pending) return 0;
+    let retried = 0;
+    for (const namespace of await this.pendingNamespaces()) {
+      retried += await this.namespaces.run(namespace, () => pending.retryAll());
+    }
+    return retried;
+  }
+
+  /**
+   * Runs a storage operation through the circuit breaker, when `resilience` is enabled.
+   */
+  private guard<T>(operation: () => Promise<T>): Promise<T> {
+    return this.breaker ? this.breaker.run(operation) : operation();
+  }
+
+  /**
+   * Emits an `error` event, except for calls skipped while the circuit is open.
+   */
+  private reportError(
+    operation: CacheErrorEvent["operation"],
+    error: unknown,
+    key: string | undefined,
+    tables: string[],
+    isTag: boolean,
+  ): void {
+    if (error instanceof CacheUnavailableError && error.reason === "open") return;
+    this.events.emit("error", { operation, error, key, tables, isTag });
+  }
+
+  private invalidate(tables: string[], tags: string[], keys: string[]): Promise<number> {
+    return this.pending ? this.pending.run(tables, tags, keys) : this.cleanup(tables, tags, keys);
+  }
+
+  /**
+   * Returns the number of entries dropped through dependency `keys`.
+   */
+  private async cleanup(tables: string[], tags: string[], keys: string[]): Promise<number> {
+    const [removed] = await Promise.all([
+      this.invalidateDependencies(keys),
+      this.invalidateTags(tags),
+      this.invalidateTables(tables),
+      this.invalidateOtherVersions(tables, tags, keys),
+    ]);
+    if (this.invalidation && (tags.length || tables.length || keys.length)) {
+      await this.invalidation.transport.publish({
+        source: this.instanceId,
+        namespace: this.namespaces.current(),
+        tables,
+        tags,
+        keys,
+      });
+    }
+    return removed;
+  }
+
+  /**
+   * Applies an invalidation to the keyspaces of the other live schema versions,
+   * so instances of a previous (or next) deploy never serve rows this one mutated.
+   */
+  private async invalidateOtherVersions(
+    tables: string[],
+    tags: string[],
+    keys: string[],
+  ): Promise<void> {
+    if (this.schemaVersion === undefined || (!tables.length && !tags.length && !keys.length)) {
+      return;
+    }
+    const versions = (await this.root.getKeys(`${SCHEMA_PREFIX}:`))
+      .map((key) => decodeURIComponent(key.slice(SCHEMA_PREFIX.length + 1)))
+      .filter((version) => version !== this.schemaVersion);
+    for (const version of versions) {
+      await this.namespaces.runInVersion(version, async () => {
+        await Promise.all([
+          this.invalidateDependencies(keys),
+          this.invalidateTags(tags),
+          this.invalidateTables(tables),
+        ]);
+      });
+    }
+  }
+
+  /**
+   * Records `schemaVersion` as live once per process, see `invalidateOtherVersions`.
+   */
+  private registerSchemaVersion(): Promise<void> {
+    if (this.schemaVersion === undefined) return Promise.resolve();
+    this.schemaRegistered ??= this.root
+      .setItem(`${SCHEMA_PREFIX}:${encode(this.schemaVersion)}`, Date.now())
+      .catch((error: unknown) => {
+        this.schemaRegistered = undefined;
+        throw error;
+      });
+    return this.schemaRegistered;
+  }
+
+  private async valueKeys(): Promise<string[]> {
+    const groups = await Promise.all(
+      [VALUE_AUTO_PREFIX, VALUE_NON_AUTO_PREFIX, VALUE_VERSIONED_PREFIX].map((prefix) =>
+        this.storage.getKeys(`${prefix}:`),
+      ),
+    );
+    return groups.flat();
+  }
+
+  /**
+   * Current generations of "version" strategy value keys, by value key.
+   */
+  private async currentVersionKeys(valueKeys: string[]): Promise<Map<string, string | undefined>> {
+    const current = new Map<string, string | undefined>();
+    for (const key of valueKeys) {
+      const parsed = parseValueKey(key);
+      if (parsed?.versionsKey === undefined || !parsed.tablesKey) continue;
+      const versions = await this.readVersions(parsed.tablesKey);
+      current.set(
+        key,
+        versions.some((version) => version === undefined) ? undefined : versions.join("."),
+      );
+    }
+    return current;
+  }
+
+  private async valueKeysForTables(tables: string[]): Promise<string[]> {
+    if (this.versioned) {
+      return (await this.valueKeys()).filter((key) => {
+        const parsed = parseValueKey(key);
+        return decodeTablesKey(parsed?.tablesKey).some((table) => tables.includes(table));
+      });
+    }
+
+    const valueKeys = new Set<string>();
+    for (const table of tables) {
+      for (const indexKey of await this.storage.getKeys(`${INDEX_PREFIX}:${encode(table)}:`)) {
+        const parsed = parseIndexKey(indexKey);
+        if (!parsed) continue;
+        valueKeys.add(this.valueKey(true, parsed.isTag, parsed.keyEnc, parsed.tablesKey));
+      }
+    }
+    return Array.from(valueKeys);
+  }
+
+  private async describe(storageKey: string): Promise<CacheEntryInfo | undefined> {
+    const parsed = parseValueKey(storageKey);
+    if (!parsed) return undefined;
+    const entry = await this.storage.getItem<CacheEntry>(storageKey);
+    if (!entry) return undefined;
+
+    return {
+      key: decodeURIComponent(parsed.keyEnc),
+      keyEnc: parsed.keyEnc,
+      storageKey,
+      isTag: parsed.isTag,
+      autoInvalidate: parsed.autoInvalidate,
+      tables: entry.tables ?? decodeTablesKey(parsed.tablesKey),
+      dependencies: entry.dependencies ?? [],
+      tags: entry.tags ?? [],
+      expiresAt: entry.expiresAt,
+      staleUntil: entry.staleUntil,
+      size: byteLength(JSON.stringify(entry) ?? ""),
+    };
+  }
+
+  private async onInvalidation(message: InvalidationMessage): Promise<void> {
+    if (message.source === this.instanceId) return;
+
+    const keys = message.keys ?? [];
+    await this.namespaces.run(message.namespace, async () => {
+      this.clearLocal(message.tables, message.tags, keys);
+      if (this.invalidation?.applyToStorage) {
+        await Promise.all([
+          this.invalidateDependencies(keys),
+          this.invalidateTags(message.tags),
+          this.invalidateTables(message.tables),
+        ]);
+      }
+    });
+    this.log(
+      `INVALIDATE REMOTE tables=${message.tables.join(",")} tags=${message.tags.join(",")} keys=${keys.join(",")}`,
+    );
+  }
+
+  /**
+   * Drops local tier keys of the current namespace belonging to `tables`, `tags` or
+   * dependency `keys` without touching `storage`.
+   */
+  private clearLocal(tables: string[], tags: string[], keys: string[] = []): void {
+    if (!this.local) return;
+    const matchesTag = (tag: string) => tags.some((pattern) => matchPattern(pattern, tag));
+    const matchesKey = (dependency: string) =>
+      keys.some((pattern) => matchPattern(pattern, dependency));
+    const prefix = this.scopedKey("");
+
+    this.local.deleteWhere((scopedKey, value) => {
+      if (!scopedKey.startsWith(prefix)) return false;
+      const key = scopedKey.slice(prefix.length);
+      if (key.startsWith(`${TAG_MAP_PREFIX}:`)) {
+        return matchesTag(decodeURIComponent(key.slice(TAG_MAP_PREFIX.length + 1)));
+      }
+      const parsed = parseValueKey(key);
+      if (!parsed) return false;
+      if (parsed.isTag && matchesTag(decodeURIComponent(parsed.keyEnc))) return true;
+      const entry = value() as CacheEntry | undefined;
+      if (entry?.tags?.some(matchesTag) || entry?.dependencies?.some(matchesKey)) return true;
+      return decodeTablesKey(parsed.tablesKey).some((table) => tables.includes(table));
+    });
   }
 
   private async invalidateTag(tag: string): Promise<void> {
+    const startedAt = performance.now();
     const keyEnc = encode(tag);
     const mapValue = await this.storage.getItem<string>(this.tagMapKey(keyEnc));
 
     if (!mapValue || mapValue === "NAI") {
       await Promise.all([
-        this.storage.removeItem(this.valueKey(false, true, keyEnc)),
-        this.storage.removeItem(this.tagMapKey(keyEnc)),
+        this.removeItem(this.valueKey(false, true, keyEnc)),
+        this.removeItem(this.tagMapKey(keyEnc)),
       ]);
-      this.log(`INVALIDATE TAG ${tag} removedIndex=0`);
+      this.emitInvalidate(startedAt, [], mapValue ? 1 : 0, tag);
       return;
     }
 
     const tablesKey = mapValue;
     const tables = decodeTablesKey(tablesKey);
-    const valueKey = this.valueKey(true, true, keyEnc, tablesKey);
+    const valueKey = await this.resolveValueKey(true, true, keyEnc, tablesKey);
 
-    await this.storage.removeItem(valueKey);
+    // a tag entry is only reachable through its tag map, so everything goes in one round-trip
     await Promise.all(
-      tables.map((table) => this.storage.removeItem(this.indexKey(table, tablesKey, true, keyEnc))),
+      [
+        ...(valueKey ? [valueKey] : []),
+        ...(this.versioned
+          ? []
+          : tables.map((table) => this.indexKey(table, tablesKey, true, keyEnc))),
+        this.tagMapKey(keyEnc),
+      ].map((key) => this.removeItem(key)),
     );
-    await this.storage.removeItem(this.tagMapKey(keyEnc));
 
-    this.log(`INVALIDATE TAG ${tag} removedIndex=${tables.length}`);
+    this.emitInvalidate(startedAt, tables, valueKey ? 1 : 0, tag);
+  }
+
+  private emitInvalidate(startedAt: number, tables: string[], removed: number, tag?: string): void {
+    this.events.emit("invalidate", {
+      key: tag,
+      keyEnc: tag !== undefined ? encode(tag) : undefined,
+      tables,
+      isTag: tag !== undefined,
+      durationMs: performance.now() - startedAt,
+      removed,
+    });
   }
 
+  /**
+   * Whether an additional tag or dependency key of `entry` has an unfinished invalidation,
+   * or was mutated in the open `deferInvalidation` scope. Only known once the entry is read.
+   */
+  private async isInvalidating(entry: CacheEntry): Promise<boolean> {
+    const tags = entry.tags ?? [];
+    const dependencies = entry.dependencies ?? [];
+    if (!tags.length && !dependencies.length) return false;
+    if (this.deferred.touches([], undefined, dependencies)) return true;
+    return (await this.pending?.isPending([], tags, dependencies)) === true;
+  }
+
+  /**
+   * Drops entries stored with any of dependency `keys`, where keys containing `*` are patterns
+   * expanded over the dependency index keys. Returns the number of dropped entries.
+   */
+  private async invalidateDependencies(keys: string[]): Promise<number> {
+    if (!keys.length) return 0;
+    // one scan of the dependency index for every key and pattern, as in `invalidateTags`
+    const linkKeys = (await this.storage.getKeys(`${DEPENDENCY_PREFIX}:`)).filter((linkKey) => {
+      const parsed = parseDependencyKey(linkKey);
+      if (!parsed) return false;
+      const dependency = decodeURIComponent(parsed.dependencyEnc);
+      return keys.some((key) => matchPattern(key, dependency));
+    });
+
+    let removed = 0;
+    for (const linkKey of linkKeys) {
+      if (await this.dropLinked(linkKey)) removed++;
+    }
+    this.log(`INVALIDATE KEYS ${keys.join(",")} removed=${removed}`);
+    return removed;
+  }
+
+  /**
+   * Invalidates `tags`, where tags containing `*` are patterns expanded over the tag maps
+   * and tag index keys, including additional tags attached with `withTags`.
+   */
   private async invalidateTags(tags: string[]): Promise<void> {
     if (!tags.length) return;
-    await Promise.all(tags.map((tag) => this.invalidateTag(tag)));
+    const patterns = tags.filter((tag) => tag.includes("*"));
+    const names = new Set(tags.filter((tag) => !tag.includes("*")));
+    const matches = (tagEnc: string) =>
+      patterns.some((pattern) => matchPattern(pattern, decodeURIComponent(tagEnc)));
+
+    // one scan of the `withTags` index for every name and pattern
+    const [tagIndexKeys, tagMapKeys] = await Promise.all([
+      this.storage.getKeys(`${TAG_INDEX_PREFIX}:`),
+      patterns.length ? this.storage.getKeys(`${TAG_MAP_PREFIX}:`) : [],
+    ]);
+    const linkKeys = tagIndexKeys.filter((key) => {
+      const parsed = parseDependencyKey(key, TAG_INDEX_PREFIX);
+      if (!parsed) return false;
+      return names.has(decodeURIComponent(parsed.dependencyEnc)) || matches(parsed.dependencyEnc);
+    });
+    for (const key of tagMapKeys) {
+      const tagEnc = key.slice(TAG_MAP_PREFIX.length + 1);
+      if (matches(tagEnc)) names.add(decodeURIComponent(tagEnc));
+    }
+
+    await Promise.all([
+      ...Array.from(names, (tag) => this.invalidateTag(tag)),
+      ...linkKeys.map((key) => this.dropLinked(key)),
+    ]);
   }
 
   private async invalidateTables(tables: string[]): Promise<void> {
     if (!tables.length) return;
+    const startedAt = performance.now();
 
-    const indexKeys = new Set<string>();
-    for (const table of tables) {
-      const tableEnc = encode(table);
-      const prefix = `${INDEX_PREFIX}:${tableEnc}:`;
-      const keys = await this.storage.getKeys(prefix);
-      keys.forEach((k) => {
-        indexKeys.add(k);
-      });
+    if (this.versioned) {
+      await this.setMany(
+        tables.map((table) => ({ key: this.versionKey(encode(table)), value: nextVersion() })),
+      );
+      this.clearLocal(tables, []);
+      this.emitInvalidate(startedAt, tables, tables.length);
+      return;
     }
 
+    // another instance may already have removed the index keys, but not this one's local tier
+    this.clearLocal(tables, []);
+    const indexKeys = new Set(
+      (
+        await Promise.all(
+          tables.map((table) => this.storage.getKeys(`${INDEX_PREFIX}:${encode(table)}:`)),
+        )
+      ).flat(),
+    );
+
     if (!indexKeys.size) {
-      this.log(`INVALIDATE TABLES ${tables.join(",")} removed=0`);
+      this.emitInvalidate(startedAt, tables, 0);
       return;
     }
 
-    const valueKeys = new Set<string>();
+    // value key -> its index keys among `indexKeys`
+    const entries = new Map<string, string[]>();
     for (const indexKey of indexKeys) {
       const parsed = parseIndexKey(indexKey);
       if (!parsed) continue;
-      valueKeys.add(this.valueKey(true, parsed.isTag, parsed.keyEnc, parsed.tablesKey));
+      const valueKey = this.valueKey(true, parsed.isTag, parsed.keyEnc, parsed.tablesKey);
+      entries.set(valueKey, [...(entries.get(valueKey) ?? []), indexKey]);
     }
 
-    await Promise.all([
-      ...Array.from(indexKeys).map((k) => this.storage.removeItem(k)),
-      ...Array.from(valueKeys).map((k) => this.storage.removeItem(k)),
-    ]);
+    // value and index keys go in one round-trip; if a value key fails to go, its index keys
+    // are written back so a retry (or `durableInvalidation`) still leads to it
+    const valueKeys = Array.from(entries.keys());
+    const results = await Promise.allSettled(
+      [...valueKeys, ...indexKeys].map((key) => this.removeItem(key)),
+    );
+    const failure = results.find((result) => result.status === "rejected");
+    if (failure) {
+      const restored = valueKeys
+        .filter((_, i) => results[i]?.status === "rejected")
+        .flatMap((valueKey) => entries.get(valueKey) ?? []);
+      await this.setMany(restored.map((key) => ({ key, value: 1 })));
+      throw failure.reason;
+    }
 
-    this.log(`INVALIDATE TABLES ${tables.join(",")} removed=${valueKeys.size}`);
+    this.emitInvalidate(startedAt, tables, valueKeys.length);
   }
 
   private async dropEntry(params: {
@@ -245,6 +1317,8 @@ export class UnstorageCache extends Cache {
     isTag: boolean;
     keyEnc: string;
     tablesKey?: string | undefined;
+    /** Already resolved value key, required in "version" strategy */
+    valueKey?: string;
     entry?: CacheEntry | null | undefined;
     fallbackTables?: string[];
     removeTagMap?: boolean;
@@ -253,18 +1327,27 @@ export class UnstorageCache extends Cache {
       params;
     const tables = entry?.tables ?? fallbackTables ?? (tablesKey ? decodeTablesKey(tablesKey) : []);
     const resolvedTablesKey = autoInvalidate ? (tablesKey ?? makeTablesKey(tables)) : undefined;
+    const valueKey =
+      params.valueKey ?? this.valueKey(autoInvalidate, isTag, keyEnc, resolvedTablesKey);
 
-    await this.storage.removeItem(this.valueKey(autoInvalidate, isTag, keyEnc, resolvedTablesKey));
-    if (isTag && removeTagMap) {
-      await this.storage.removeItem(this.tagMapKey(keyEnc));
-    }
-    if (!autoInvalidate || !tables.length || !resolvedTablesKey) return;
+    this.refreshing.delete(this.scopedKey(valueKey));
+    await this.removeItem(valueKey);
+    this.events.emit("drop", { key: decodeURIComponent(keyEnc), keyEnc, tables, isTag });
 
-    await Promise.all(
-      tables.map((table) =>
-        this.storage.removeItem(this.indexKey(table, resolvedTablesKey, isTag, keyEnc)),
+    // the value key goes first, the keys leading to it are removed in a single round-trip
+    const linkKeys = [
+      ...(isTag && removeTagMap ? [this.tagMapKey(keyEnc)] : []),
+      ...(entry?.dependencies ?? []).map((dependency) =>
+        this.dependencyKey(dependency, resolvedTablesKey, isTag, keyEnc),
       ),
-    );
+      ...(entry?.tags ?? []).map((extraTag) =>
+        this.dependencyKey(extraTag, resolvedTablesKey, isTag, keyEnc, TAG_INDEX_PREFIX),
+      ),
+      ...(this.versioned || !resolvedTablesKey
+        ? []
+        : tables.map((table) => this.indexKey(table, resolvedTablesKey, isTag, keyEnc))),
+    ];
+    await Promise.all(linkKeys.map((key) => this.removeItem(key)));
   }
 
   private valueKey(
@@ -272,22 +1355,301 @@ export class UnstorageCache extends Cache {
     isTag: boolean,
     keyEnc: string,
     tablesKey?: string,
+    versionsKey?: string,
   ): string {
     const kind = isTag ? "t" : "q";
     if (!autoInvalidate) {
       return `${VALUE_NON_AUTO_PREFIX}:${kind}:${keyEnc}`;
     }
+    if (versionsKey !== undefined) {
+      return `${VALUE_VERSIONED_PREFIX}:${tablesKey ?? ""}:${versionsKey}:${kind}:${keyEnc}`;
+    }
     return `${VALUE_AUTO_PREFIX}:${tablesKey ?? ""}:${kind}:${keyEnc}`;
   }
 
+  /**
+   * Value key for reads. In "version" strategy it embeds the current table generations,
+   * and is `undefined` when a generation is missing (nothing can be cached under it yet).
+   */
+  private async resolveValueKey(
+    autoInvalidate: boolean,
+    isTag: boolean,
+    keyEnc: string,
+    tablesKey: string | undefined,
+  ): Promise<string | undefined> {
+    if (!this.versioned || !autoInvalidate || !tablesKey) {
+      return this.valueKey(autoInvalidate, isTag, keyEnc, tablesKey);
+    }
+    const versions = await this.readVersions(tablesKey);
+    if (versions.some((version) => version === undefined)) return undefined;
+    return this.valueKey(autoInvalidate, isTag, keyEnc, tablesKey, versions.join("."));
+  }
+
+  /**
+   * Like `resolveValueKey` for writes: missing generations are created instead of
+   * starting from a fixed value, so a lost generation key can never resurrect old entries.
+   */
+  private async ensureVersionsKey(tablesKey: string): Promise<string> {
+    const tableEncs = tablesKey.split(",");
+    const versions = await this.readVersions(tablesKey);
+    const created: { key: string; value: StorageValue }[] = [];
+    const resolved = versions.map((version, i) => {
+      if (version !== undefined) return version;
+      const value = nextVersion();
+      created.push({ key: this.versionKey(tableEncs[i] ?? ""), value });
+      return value;
+    });
+    if (created.length) {
+      await this.setMany(created);
+    }
+    return resolved.join(".");
+  }
+
+  private async readVersions(tablesKey: string): Promise<(string | undefined)[]> {
+    const keys = tablesKey.split(",").map((tableEnc) => this.versionKey(tableEnc));
+    const items = await this.storage.getItems(keys);
+    const byKey = new Map(items.map((item) => [item.key, item.value]));
+    return keys.map((key) => {
+      const value = byKey.get(key);
+      return value === null || value === undefined ? undefined : String(value);
+    });
+  }
+
+  private versionKey(tableEnc: string): string {
+    return `${VERSION_PREFIX}:${tableEnc}`;
+  }
+
   private indexKey(table: string, tablesKey: string, isTag: boolean, keyEnc: string): string {
     return `${INDEX_PREFIX}:${encode(table)}:${tablesKey}:${isTag ? "t" : "q"}:${keyEnc}`;
   }
 
-  private isExpired(entry: CacheEntry): boolean {
+  private dependencyKey(
+    dependency: string,
+    tablesKey: string | undefined,
+    isTag: boolean,
+    keyEnc: string,
+    prefix = DEPENDENCY_PREFIX,
+  ): string {
+    return `${prefix}:${encode(dependency)}:${tablesKey || "NAI"}:${isTag ? "t" : "q"}:${keyEnc}`;
+  }
+
+  /**
+   * Drops the entry a dependency or tag index key points to, then the key itself.
+   * Returns whether an entry was dropped.
+   */
+  private async dropLinked(linkKey: string): Promise<boolean> {
+    const parsed = parseDependencyKey(linkKey) ?? parseDependencyKey(linkKey, TAG_INDEX_PREFIX);
+    const valueKey = await this.indexedValueKey(linkKey);
+    let entry: CacheEntry | null = null;
+    if (parsed && valueKey) {
+      entry = await this.storage.getItem<CacheEntry>(valueKey);
+      await this.dropEntry({
+        autoInvalidate: parsed.tablesKey !== undefined,
+        isTag: parsed.isTag,
+        keyEnc: parsed.keyEnc,
+        tablesKey: parsed.tablesKey,
+        valueKey,
+        entry,
+        removeTagMap: true,
+      });
+    }
+    await this.removeItem(linkKey);
+    return entry !== null;
+  }
+
+  /**
+   * Value key an index, dependency or tag index key points to.
+   */
+  private async indexedValueKey(key: string): Promise<string | undefined> {
+    const index = parseIndexKey(key);
+    if (index) return this.valueKey(true, index.isTag, index.keyEnc, index.tablesKey);
+    const dependency = parseDependencyKey(key) ?? parseDependencyKey(key, TAG_INDEX_PREFIX);
+    if (!dependency) return undefined;
+    return this.resolveValueKey(
+      dependency.tablesKey !== undefined,
+      dependency.isTag,
+      dependency.keyEnc,
+      dependency.tablesKey,
+    );
+  }
+
+  /**
+   * Returns the decoded entry value, unless it is stale and this reader should refresh it instead.
+   */
+  private async serve(
+    entry: CacheEntry,
+    valueKey: string,
+    tier: "l1" | "l2",
+    ctx: ReadContext,
+  ): Promise<unknown[] | undefined> {
+    if (entry.schemaVersion !== this.schemaVersion) {
+      return this.miss(ctx, "version");
+    }
+    const stale = this.isStale(entry);
+    if (stale && this.claimRefresh(valueKey)) {
+      return this.miss(ctx, "refresh");
+    }
+    if (!stale && this.expiresEarly(entry)) {
+      return this.miss(ctx, "early");
+    }
+
+    let value: unknown;
+    try {
+      value = await this.decodeValue(entry);
+    } catch {
+      return this.miss(ctx, "decode");
+    }
+
+    await this.touch(valueKey, entry);
+    this.stats.hit(tier, stale, this.statsScope(ctx));
+    this.events.emit("hit", {
+      ...this.eventBase(ctx),
+      tier,
+      stale,
+      expiresAt: entry.expiresAt,
+    });
+    return value as unknown[] | undefined;
+  }
+
+  private miss(ctx: ReadContext, reason: CacheMissEvent["reason"], entry?: CacheEntry): undefined {
+    if (ctx.held) ctx.held.miss = { ctx, reason, entry };
+    else this.recordMiss(ctx, reason, entry);
+    return undefined;
+  }
+
+  private recordMiss(ctx: ReadContext, reason: CacheMissEvent["reason"], entry?: CacheEntry): void {
+    if (this.earlyRefresh) this.trackMiss(ctx);
+    this.stats.miss(reason === "expired", this.statsScope(ctx));
+    if (reason === "expired") {
+      this.events.emit("expired", { ...this.eventBase(ctx), expiresAt: entry?.expiresAt });
+    }
+    this.events.emit("miss", { ...this.eventBase(ctx), reason });
+  }
+
+  private eventBase(ctx: ReadContext): Omit<CacheMissEvent, "reason"> {
+    return {
+      key: ctx.key,
+      keyEnc: ctx.keyEnc,
+      tables: ctx.tables,
+      isTag: ctx.isTag,
+      durationMs: performance.now() - ctx.startedAt,
+    };
+  }
+
+  private statsScope(ctx: ReadContext): StatsScope {
+    return ctx.isTag ? { tables: ctx.tables, tag: ctx.key } : { tables: ctx.tables };
+  }
+
+  /**
+   * Remembers when a key missed, so the `put` that follows can record how long the query took.
+   */
+  private trackMiss(ctx: ReadContext): void {
+    const key = this.flightKey(ctx.isTag, ctx.keyEnc);
+    this.missedAt.delete(key);
+    this.missedAt.set(key, Date.now());
+    for (const oldest of this.missedAt.keys()) {
+      if (this.missedAt.size <= MAX_TRACKED_MISSES) break;
+      this.missedAt.delete(oldest);
+    }
+  }
+
+  /**
+   * Remembers the tables of an `autoInvalidate: false` query, so the `put` that follows
+   * (where Drizzle passes none) resolves its policy like `get` did.
+   */
+  private trackTables(isTag: boolean, keyEnc: string, tables: string[]): void {
+    const key = this.flightKey(isTag, keyEnc);
+    this.queriedTables.delete(key);
+    this.queriedTables.set(key, tables);
+    for (const oldest of this.queriedTables.keys()) {
+      if (this.queriedTables.size <= MAX_TRACKED_QUERIES) break;
+      this.queriedTables.delete(oldest);
+    }
+  }
+
+  private takeQueriedTables(isTag: boolean, keyEnc: string): string[] {
+    const key = this.flightKey(isTag, keyEnc);
+    const tables = this.queriedTables.get(key) ?? [];
+    this.queriedTables.delete(key);
+    return tables;
+  }
+
+  /**
+   * Milliseconds since the last miss of the key, when `earlyRefresh` is enabled and it is recent.
+   */
+  private computeMs(isTag: boolean, keyEnc: string, now: number): number | undefined {
+    if (!this.earlyRefresh) return undefined;
+    const key = this.flightKey(isTag, keyEnc);
+    const missedAt = this.missedAt.get(key);
+    this.missedAt.delete(key);
+    if (missedAt === undefined || now - missedAt > MAX_COMPUTE_MS) return undefined;
+    return now - missedAt;
+  }
+
+  /**
+   * XFetch: expires the entry ahead of time with a probability growing as `expiresAt` approaches,
+   * scaled by its compute time.
+   */
+  private expiresEarly(entry: CacheEntry): boolean {
+    if (!this.earlyRefresh || entry.expiresAt === undefined || !entry.computeMs) return false;
+    const gap = -entry.computeMs * this.earlyRefresh.beta * Math.log(Math.random());
+    return Date.now() + gap >= entry.expiresAt;
+  }
+
+  /**
+   * First reader of a stale entry owns its refresh for `STALE_REFRESH_LEASE_MS`.
+   */
+  private claimRefresh(valueKey: string): boolean {
+    const now = Date.now();
+    const key = this.scopedKey(valueKey);
+    const claimedAt = this.refreshing.get(key);
+    if (claimedAt !== undefined && claimedAt + STALE_REFRESH_LEASE_MS > now) return false;
+    this.refreshing.set(key, now);
+    return true;
+  }
+
+  private async encodeValue(
+    response: unknown,
+  ): Promise<Pick<CacheEntry, "value" | "codec" | "compression">> {
+    const value = this.serializer ? this.serializer.encode(response) : response;
+    const codec = this.serializer ? { codec: this.serializer.id } : {};
+    if (!this.compression) return { value, ...codec };
+
+    const text: string | undefined = JSON.stringify(value);
+    if (text === undefined || byteLength(text) < this.compression.threshold) {
+      return { value, ...codec };
+    }
+
+    const { algorithm } = this.compression;
+    return { value: await compress(text, algorithm), ...codec, compression: algorithm };
+  }
+
+  private async decodeValue(entry: CacheEntry): Promise<unknown> {
+    const value = entry.compression
+      ? JSON.parse(await decompress(entry.value as string, entry.compression))
+      : entry.value;
+    return this.serializer ? this.serializer.decode(value) : value;
+  }
+
+  private matchesCodec(entry: CacheEntry): boolean {
+    return entry.codec === this.serializer?.id;
+  }
+
+  /**
+   * Entry is past its fresh window but may still be served.
+   */
+  private isStale(entry: CacheEntry): boolean {
     return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
   }
 
+  /**
+   * Entry is past both fresh and stale windows and must be dropped.
+   */
+  private isExpired(entry: CacheEntry): boolean {
+    const removeAt = entry.staleUntil ?? entry.expiresAt;
+    return removeAt !== undefined && removeAt <= Date.now();
+  }
+
   private ttlOptions(ttlSeconds: number | undefined): Record<string, number> | undefined {
     if (!ttlSeconds) {
       return undefined;
@@ -297,24 +1659,48 @@ export class UnstorageCache extends Cache {
 
   private toExpiresAt(
     now: number,
+    policy: ResolvedPolicy,
     config?: CacheConfig,
-    existingExpiresAt?: number,
-  ): number | undefined {
-    if (config?.keepTtl && existingExpiresAt && existingExpiresAt > now) {
-      return existingExpiresAt;
+    existing?: CacheEntry,
+    empty = false,
+  ): { expiresAt: number | undefined; staleUntil: number | undefined } {
+    if (config?.keepTtl && existing?.expiresAt && existing.expiresAt > now) {
+      return { expiresAt: existing.expiresAt, staleUntil: existing.staleUntil };
     }
 
-    const source = pickConfigWithTtl(config) ?? pickConfigWithTtl(this.defaultConfig);
-    if (!source) {
-      return now + DEFAULT_TTL_MS;
-    }
+    const emptyTtl = empty && this.emptyResults ? pickConfigWithTtl(this.emptyResults) : undefined;
+    const freshUntil = emptyTtl
+      ? Math.min(this.freshUntil(now, policy, config), expiresAtFor(now, emptyTtl))
+      : this.freshUntil(now, policy, config);
+    // jitter only shortens the TTL, so configured lifetimes stay upper bounds
+    const expiresAt =
+      this.ttlJitter > 0 && freshUntil > now
+        ? Math.round(freshUntil - (freshUntil - now) * this.ttlJitter * Math.random())
+        : freshUntil;
+    const staleUntil =
+      expiresAt !== undefined && this.staleTtlMs > 0 ? expiresAt + this.staleTtlMs : undefined;
+    return { expiresAt, staleUntil };
+  }
 
-    if (source.px !== undefined) return now + source.px;
-    if (source.ex !== undefined) return now + source.ex * 1000;
-    if (source.pxat !== undefined) return source.pxat;
-    if (source.exat !== undefined) return source.exat * 1000;
+  /**
+   * Call-site TTL first, then the shortest policy TTL, then the default `config`.
+   */
+  private freshUntil(now: number, policy: ResolvedPolicy, config?: CacheConfig): number {
+    const own = pickConfigWithTtl(config);
+    if (own) return expiresAtFor(now, own);
 
-    return now + DEFAULT_TTL_MS;
+    const fromPolicies = (policy || []).flatMap((entry) => {
+      const source = pickConfigWithTtl(entry);
+      return source ? [expiresAtFor(now, source)] : [];
+    });
+    if (fromPolicies.length) return Math.min(...fromPolicies);
+
+    const fallback = pickConfigWithTtl(this.defaultConfig);
+    return fallback ? expiresAtFor(now, fallback) : now + DEFAULT_TTL_MS;
+  }
+
+  private logWarm(result: WarmupResult): void {
+    this.log(`WARM refreshed=${result.refreshed.length} failed=${result.failed.length}`);
   }
 
   private log(message: string): void {
@@ -322,6 +1708,256 @@ export class UnstorageCache extends Cache {
     console.log(`[uncache] ${message}`);
   }
 
+  /**
+   * Resolves the value key and reads its entry.
+   */
+  private async findEntry(
+    autoInvalidate: boolean,
+    isTag: boolean,
+    keyEnc: string,
+    tablesKey: string | undefined,
+    prefetched?: Prefetched,
+  ): Promise<{ valueKey: string | undefined; entry: CacheEntry | null; tier: "l1" | "l2" }> {
+    const valueKey = await this.resolveValueKey(autoInvalidate, isTag, keyEnc, tablesKey);
+    if (!valueKey) return { valueKey, entry: null, tier: "l2" };
+    return { valueKey, ...(await this.getEntry(valueKey, prefetched)) };
+  }
+
+  /**
+   * Fills `prefetched` with the storage items `getMany` will read, in at most two `getItems` calls.
+   */
+  private async prefetch(lookups: CacheLookup[], prefetched: Prefetched): Promise<void> {
+    const inLocal = (key: string) => this.local?.get(this.scopedKey(key)) !== undefined;
+    const queryKeys = lookups.flatMap(({ key, tables = [], isTag, isAutoInvalidate }) => {
+      if (isTag) return [];
+      const autoInvalidate = isAutoInvalidate ?? tables.length > 0;
+      // "version" strategy resolves value keys through generation reads, left to `get`
+      if (autoInvalidate && this.versioned) return [];
+      const tablesKey = autoInvalidate ? makeTablesKey(tables) : undefined;
+      return [this.valueKey(autoInvalidate, false, encode(key), tablesKey)];
+    });
+    const tagKeyEncs = lookups.filter((lookup) => lookup.isTag).map(({ key }) => encode(key));
+    await this.getItemsInto(
+      [...queryKeys, ...tagKeyEncs.map((keyEnc) => this.tagMapKey(keyEnc))].filter(
+        (key) => !inLocal(key),
+      ),
+      prefetched,
+    );
+
+    const tagValueKeys = tagKeyEncs.flatMap((keyEnc) => {
+      const mapKey = this.tagMapKey(keyEnc);
+      const mapValue = prefetched.get(mapKey) ?? this.local?.get<string>(this.scopedKey(mapKey));
+      if (typeof mapValue !== "string") return [];
+      if (mapValue === "NAI") return [this.valueKey(false, true, keyEnc)];
+      return this.versioned ? [] : [this.valueKey(true, true, keyEnc, mapValue)];
+    });
+    await this.getItemsInto(
+      tagValueKeys.filter((key) => !inLocal(key)),
+      prefetched,
+    );
+  }
+
+  private async getItemsInto(keys: string[], prefetched: Prefetched): Promise<void> {
+    if (!keys.length) return;
+    const items = await this.storage.getItems(keys);
+    // keys the driver does not return are left to `get`
+    for (const { key, value } of items) prefetched.set(key, value ?? null);
+  }
+
+  private async getEntry(
+    valueKey: string,
+    prefetched?: Prefetched,
+  ): Promise<{ entry: CacheEntry | null; tier: "l1" | "l2" }> {
+    const local = this.local?.get<CacheEntry>(this.scopedKey(valueKey));
+    if (local) return { entry: local, tier: "l1" };
+
+    const entry = prefetched?.has(valueKey)
+      ? (prefetched.get(valueKey) as CacheEntry | null)
+      : await this.storage.getItem<CacheEntry>(valueKey);
+    if (entry && this.local) {
+      this.local.set(this.scopedKey(valueKey), entry, entry.staleUntil ?? entry.expiresAt);
+    }
+    return { entry, tier: "l2" };
+  }
+
+  private async getTagMap(keyEnc: string, prefetched?: Prefetched): Promise<string | null> {
+    const key = this.tagMapKey(keyEnc);
+    const local = this.local?.get<string>(this.scopedKey(key));
+    if (local) return local;
+
+    const mapValue = prefetched?.has(key)
+      ? (prefetched.get(key) as string | null)
+      : await this.storage.getItem<string>(key);
+    if (mapValue) this.local?.set(this.scopedKey(key), mapValue);
+    return mapValue;
+  }
+
+  private async removeItem(key: string): Promise<void> {
+    this.local?.delete(this.scopedKey(key));
+    if (!this.eviction || !parseValueKey(key)) {
+      await this.storage.removeItem(key);
+      return;
+    }
+
+    const metaKey = this.metaKey(key);
+    const meta = this.budget.has(this.namespaces.prefix())
+      ? await this.storage.getItem<EntryMeta>(metaKey)
+      : null;
+    await Promise.all([this.storage.removeItem(key), this.storage.removeItem(metaKey)]);
+    if (meta) this.trackBudget(-meta.bytes, -1);
+  }
+
+  /**
+   * Namespaces of the current schema version holding pending invalidation markers,
+   * `undefined` for the root namespace. Lists every key under `base`.
+   */
+  private async pendingNamespaces(): Promise<Array<string | undefined>> {
+    const version = this.schemaVersion !== undefined ? `@${encode(this.schemaVersion)}:` : "";
+    const namespaces = new Set<string | undefined>();
+    for (const key of await this.root.getKeys()) {
+      // encoded namespaces never start with `@`, so those keys belong to a schema version
+      if (version ? !key.startsWith(version) : key.startsWith("@")) continue;
+      const [first, second] = key.slice(version.length).split(":");
+      if (first === PENDING_PREFIX) namespaces.add(undefined);
+      else if (first && second === PENDING_PREFIX) namespaces.add(decodeURIComponent(first));
+    }
+    return [...namespaces];
+  }
+
+  private flightKey(isTag: boolean, keyEnc: string): string {
+    return this.scopedKey(`${isTag ? "t" : "q"}:${keyEnc}`);
+  }
+
+  /**
+   * Storage of the current namespace and schema version.
+   */
+  private get storage(): Storage {
+    const prefix = this.namespaces.prefix();
+    if (!prefix) return this.root;
+    let storage = this.namespaced.get(prefix);
+    if (!storage) {
+      storage = prefixStorage(this.root, prefix);
+      this.namespaced.set(prefix, storage);
+    }
+    return storage;
+  }
+
+  /**
+   * Key of in-process state (local tier, single-flight, refresh leases) in the current namespace,
+   * matching the key relative to `base` in storage.
+   */
+  private scopedKey(key: string): string {
+    return `${this.namespaces.prefix()}${key}`;
+  }
+
+  private metaKey(valueKey: string): string {
+    return `${META_PREFIX}:${valueKey}`;
+  }
+
+  /**
+   * Records a hit in the entry metadata used by eviction.
+   */
+  private async touch(valueKey: string, entry: CacheEntry): Promise<void> {
+    if (!this.eviction) return;
+    const key = this.metaKey(valueKey);
+    const meta = await this.storage.getItem<EntryMeta>(key);
+    if (!meta) return;
+
+    const now = Date.now();
+    const next: EntryMeta = { ...meta, at: now, hits: meta.hits + 1 };
+    const ttlSeconds = ttlSecondsUntil(entry.staleUntil ?? entry.expiresAt, now);
+    await this.storage.setItem(key, next, this.ttlOptions(ttlSeconds));
+  }
+
+  /**
+   * Adjusts the running totals of the current namespace, once `enforceBudget` computed them.
+   */
+  private trackBudget(bytes: number, entries: number): void {
+    const prefix = this.namespaces.prefix();
+    const total = this.budget.get(prefix);
+    if (!total) return;
+    this.budget.set(prefix, {
+      bytes: Math.max(0, total.bytes + bytes),
+      entries: Math.max(0, total.entries + entries),
+    });
+  }
+
+  /**
+   * Evicts entries until the `eviction` budget fits. `keep` (the entry just written) is never evicted.
+   *
+   * `maxBytes` and `maxEntries` are checked against running totals of this instance's writes
+   * and removals, so entry metadata is only listed and read when the totals are unknown or
+   * over budget; they are then recomputed from storage, including other instances' writes.
+   */
+  private async enforceBudget(keep: string): Promise<void> {
+    if (!this.eviction) return;
+    const { maxBytes, maxEntries, policy } = this.eviction;
+    const prefix = this.namespaces.prefix();
+    const total = this.budget.get(prefix);
+    if (
+      total &&
+      (maxBytes === undefined || total.bytes <= maxBytes) &&
+      (maxEntries === undefined || total.entries <= maxEntries)
+    ) {
+      return;
+    }
+    const keys = await this.storage.getKeys(`${META_PREFIX}:`);
+
+    const candidates: { valueKey: string; meta: EntryMeta }[] = [];
+    let bytes = 0;
+    for (const batch of chunk(keys, SWEEP_BATCH_SIZE)) {
+      for (const { key, value } of await this.storage.getItems(batch)) {
+        const meta = value as EntryMeta | null;
+        if (!meta) continue;
+        bytes += meta.bytes;
+        const valueKey = key.slice(META_PREFIX.length + 1);
+        if (valueKey !== keep) candidates.push({ valueKey, meta });
+      }
+    }
+    let count = candidates.length + 1;
+    const fits = () =>
+      (maxBytes === undefined || bytes <= maxBytes) &&
+      (maxEntries === undefined || count <= maxEntries);
+
+    candidates.sort((a, b) =>
+      policy === "lfu" ? a.meta.hits - b.meta.hits || a.meta.at - b.meta.at : a.meta.at - b.meta.at,
+    );
+    // evictions below go through `removeItem`, which would subtract from known totals
+    this.budget.delete(prefix);
+    for (const { valueKey, meta } of candidates) {
+      if (fits()) break;
+      await this.evict(valueKey, meta, policy);
+      bytes -= meta.bytes;
+      count--;
+    }
+    this.budget.set(prefix, { bytes, entries: count });
+  }
+
+  private async evict(valueKey: string, meta: EntryMeta, policy: EvictionPolicy): Promise<void> {
+    const parsed = parseValueKey(valueKey);
+    if (!parsed) {
+      await this.storage.removeItem(this.metaKey(valueKey));
+      return;
+    }
+
+    await this.dropEntry({
+      autoInvalidate: parsed.autoInvalidate,
+      isTag: parsed.isTag,
+      keyEnc: parsed.keyEnc,
+      tablesKey: parsed.tablesKey,
+      valueKey,
+      removeTagMap: true,
+    });
+    this.events.emit("evict", {
+      key: decodeURIComponent(parsed.keyEnc),
+      keyEnc: parsed.keyEnc,
+      tables: decodeTablesKey(parsed.tablesKey),
+      isTag: parsed.isTag,
+      bytes: meta.bytes,
+      policy,
+    });
+  }
+
   private tagMapKey(tagEnc: string): string {
     return `${TAG_MAP_PREFIX}:${tagEnc}`;
   }
@@ -345,6 +1981,22 @@ export class UnstorageCache extends Cache {
   }
 }
 
+function ttlSecondsUntil(removeAt: number | undefined, now: number): number | undefined {
+  return removeAt !== undefined ? Math.max(1, Math.ceil((removeAt - now) / 1000)) : undefined;
+}
+
+function expiresAtFor(now: number, source: CacheConfig): number {
+  if (source.px !== undefined) return now + source.px;
+  if (source.ex !== undefined) return now + source.ex * 1000;
+  if (source.pxat !== undefined) return source.pxat;
+  if (source.exat !== undefined) return source.exat * 1000;
+  return now + DEFAULT_TTL_MS;
+}
+
+function nextVersion(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
 export function unstorageCache(options: UnstorageCacheOptions = {}): UnstorageCache {
   const storage =
     options.storage ??
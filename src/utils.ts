@@ -60,3 +60,97 @@ export function parseIndexKey(key: string):
   if (kind !== "q" && kind !== "t") return undefined;
   return { tableEnc, tablesKey, isTag: kind === "t", keyEnc };
 }
+
+/**
+ * Parses `__DEP__:<dependencyEnc>:<tablesKey | NAI>:<q|t>:<keyEnc>` dependency index keys,
+ * and tag index keys sharing the layout under another `prefix`.
+ */
+export function parseDependencyKey(
+  key: string,
+  prefix = "__DEP__",
+):
+  | {
+      dependencyEnc: string;
+      /** `undefined` for entries stored without auto invalidation */
+      tablesKey: string | undefined;
+      isTag: boolean;
+      keyEnc: string;
+    }
+  | undefined {
+  const parts = key.split(":");
+  if (parts.length !== 5) return undefined;
+  if (parts[0] !== prefix) return undefined;
+  const [dependencyEnc, tablesKey, kind, keyEnc] = parts.slice(1);
+  if (!dependencyEnc || !tablesKey || !keyEnc) return undefined;
+  if (kind !== "q" && kind !== "t") return undefined;
+  return {
+    dependencyEnc,
+    tablesKey: tablesKey === "NAI" ? undefined : tablesKey,
+    isTag: kind === "t",
+    keyEnc,
+  };
+}
+
+export function parseValueKey(key: string):
+  | {
+      autoInvalidate: boolean;
+      tablesKey: string | undefined;
+      /** Table generations, only in "version" strategy keys */
+      versionsKey: string | undefined;
+      isTag: boolean;
+      keyEnc: string;
+    }
+  | undefined {
+  const parts = key.split(":");
+  const [prefix] = parts;
+  if (prefix === "__NAI__" && parts.length === 3) {
+    const [, kind, keyEnc] = parts;
+    if ((kind !== "q" && kind !== "t") || !keyEnc) return undefined;
+    return {
+      autoInvalidate: false,
+      tablesKey: undefined,
+      versionsKey: undefined,
+      isTag: kind === "t",
+      keyEnc,
+    };
+  }
+  if (prefix === "__CT__" && parts.length === 4) {
+    const [, tablesKey, kind, keyEnc] = parts;
+    if ((kind !== "q" && kind !== "t") || !keyEnc) return undefined;
+    return { autoInvalidate: true, tablesKey, versionsKey: undefined, isTag: kind === "t", keyEnc };
+  }
+  if (prefix === "__CTV__" && parts.length === 5) {
+    const [, tablesKey, versionsKey, kind, keyEnc] = parts;
+    if ((kind !== "q" && kind !== "t") || !keyEnc) return undefined;
+    return { autoInvalidate: true, tablesKey, versionsKey, isTag: kind === "t", keyEnc };
+  }
+  return undefined;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).byteLength;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Matches `value` against a pattern where `*` stands for any sequence of characters.
+ */
+export function matchPattern(pattern: string, value: string): boolean {
+  if (!pattern.includes("*")) return pattern === value;
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
@@ -0,0 +1,176 @@
+import { hashQuery } from "drizzle-orm/cache/core";
+import type { CacheConfig } from "drizzle-orm/cache/core/types";
+import type { WarmupLoader, WarmupOptions, WarmupQuery, WarmupResult } from "./types";
+import { matchPattern, normalizeTables } from "./utils";
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_DELAY_MS = 100;
+
+type Put = (
+  key: string,
+  response: unknown,
+  tables: string[],
+  isTag: boolean,
+  config?: CacheConfig,
+) => Promise<void>;
+
+type Registration = {
+  tables: string[];
+  isTag: boolean;
+  /** Known upfront for loaders and tagged builders, hashed lazily otherwise */
+  key: string | undefined;
+  autoInvalidate: boolean;
+  config: CacheConfig | undefined;
+  onInvalidate: boolean;
+  resolveKey: () => Promise<string>;
+  load: () => Promise<unknown>;
+};
+
+/**
+ * Keeps registered queries and repopulates them through `put`.
+ */
+export class Warmer {
+  private readonly put: Put;
+  private readonly concurrency: number;
+  private readonly delayMs: number;
+  private readonly registrations = new Set<Registration>();
+  private readonly running = new Map<Registration, Promise<void>>();
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(put: Put, options: WarmupOptions = {}) {
+    this.put = put;
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  }
+
+  register(entry: WarmupLoader | WarmupQuery): () => void {
+    const registration = "query" in entry ? fromQuery(entry) : fromLoader(entry);
+    this.registrations.add(registration);
+    return () => {
+      this.registrations.delete(registration);
+    };
+  }
+
+  /**
+   * Warms every registration, or only those reading one of `tables`.
+   */
+  warm(tables?: string[], concurrency = this.concurrency): Promise<WarmupResult> {
+    const selected = Array.from(this.registrations).filter(
+      (registration) => !tables || registration.tables.some((table) => tables.includes(table)),
+    );
+    return this.run(selected, concurrency);
+  }
+
+  /**
+   * Schedules warming of registrations affected by an `onMutate`.
+   */
+  schedule(tables: string[], tags: string[], onDone: (result: WarmupResult) => void): void {
+    const selected = Array.from(this.registrations).filter(
+      (registration) =>
+        registration.onInvalidate &&
+        (registration.tables.some((table) => tables.includes(table)) ||
+          (registration.isTag &&
+            registration.key !== undefined &&
+            tags.some((tag) => matchPattern(tag, registration.key as string)))),
+    );
+    if (!selected.length) return;
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      // `run` collects loader failures, this only catches a throwing `onDone`
+      this.run(selected, this.concurrency)
+        .then(onDone)
+        .catch(() => undefined);
+    }, this.delayMs);
+    timer.unref?.();
+    this.timers.add(timer);
+  }
+
+  dispose(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private async run(registrations: Registration[], concurrency: number): Promise<WarmupResult> {
+    const result: WarmupResult = { refreshed: [], failed: [] };
+    const queue = registrations.slice();
+
+    const worker = async () => {
+      for (let registration = queue.shift(); registration; registration = queue.shift()) {
+        let key = registration.key;
+        try {
+          key = await registration.resolveKey();
+          await this.refresh(registration, key);
+          result.refreshed.push(key);
+        } catch (error) {
+          result.failed.push({ key, error });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+    return result;
+  }
+
+  /**
+   * Loads and stores one registration; concurrent calls share the same run.
+   */
+  private refresh(registration: Registration, key: string): Promise<void> {
+    const running = this.running.get(registration);
+    if (running) return running;
+
+    const promise = (async () => {
+      const value = await registration.load();
+      await this.put(
+        key,
+        value,
+        registration.autoInvalidate ? registration.tables : [],
+        registration.isTag,
+        registration.config,
+      );
+    })().finally(() => {
+      this.running.delete(registration);
+    });
+    this.running.set(registration, promise);
+    return promise;
+  }
+}
+
+function fromLoader(entry: WarmupLoader): Registration {
+  return {
+    tables: normalizeTables(entry.tables),
+    isTag: entry.isTag === true,
+    key: entry.key,
+    autoInvalidate: entry.autoInvalidate ?? true,
+    config: entry.config,
+    onInvalidate: entry.onInvalidate ?? true,
+    resolveKey: async () => entry.key,
+    load: entry.load,
+  };
+}
+
+function fromQuery(entry: WarmupQuery): Registration {
+  const { query, tag } = entry;
+  // executed with Drizzle's cache disabled, the warmer stores the result itself
+  (query as { $withCache?: (config: false) => unknown }).$withCache?.(false);
+  const usedTables = (query as { getUsedTables?: () => string[] }).getUsedTables?.() ?? [];
+  let hashed: Promise<string> | undefined;
+
+  return {
+    tables: entry.tables !== undefined ? normalizeTables(entry.tables) : usedTables,
+    isTag: tag !== undefined,
+    key: tag,
+    autoInvalidate: entry.autoInvalidate ?? true,
+    config: entry.config,
+    onInvalidate: entry.onInvalidate ?? true,
+    resolveKey: () => {
+      if (tag !== undefined) return Promise.resolve(tag);
+      if (!hashed) {
+        const { sql, params } = query.toSQL();
+        hashed = hashQuery(sql, params);
+      }
+      return hashed;
+    },
+    load: () => query.execute(),
+  };
+}
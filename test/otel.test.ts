@@ -0,0 +1,98 @@
+import type { Attributes, Meter, Tracer } from "@opentelemetry/api";
+import { createStorage } from "unstorage";
+import { describe, expect, it, vi } from "vitest";
+import { instrumentCache } from "../src/otel";
+import { unstorageCache } from "../src/unstorage-cache";
+
+function createTelemetry() {
+  const spans: { name: string; attributes: Attributes; status?: unknown; ended: boolean }[] = [];
+  const records: { name: string; value: number; attributes: Attributes | undefined }[] = [];
+  const tracer = {
+    startSpan: (name: string, options?: { attributes?: Attributes }) => {
+      const span = { name, attributes: { ...options?.attributes }, ended: false };
+      spans.push(span);
+      return {
+        setAttributes: (attributes: Attributes) => Object.assign(span.attributes, attributes),
+        setAttribute: (key: string, value: unknown) =>
+          Object.assign(span.attributes, { [key]: value }),
+        setStatus: (status: unknown) => Object.assign(span, { status }),
+        recordException: vi.fn(),
+        end: () => {
+          span.ended = true;
+        },
+      };
+    },
+  } as unknown as Tracer;
+  const instrument = (name: string) => ({
+    add: (value: number, attributes?: Attributes) => records.push({ name, value, attributes }),
+    record: (value: number, attributes?: Attributes) => records.push({ name, value, attributes }),
+  });
+  const meter = {
+    createHistogram: instrument,
+    createCounter: instrument,
+  } as unknown as Meter;
+  return { spans, records, tracer, meter };
+}
+
+describe("OpenTelemetry instrumentation", () => {
+  it("wraps cache calls in spans and records metrics from cache events", async () => {
+    const { spans, records, tracer, meter } = createTelemetry();
+    const cache = unstorageCache({ storage: createStorage(), config: { ex: 60 } });
+    const uninstrument = await instrumentCache(cache, { tracer, meter });
+
+    await cache.get("k1", ["users"], false, true);
+    await cache.put("tagged", [{ v: 1 }], ["users"], true, { ex: 60 });
+    await cache.get("tagged", ["users"], true, true);
+    await cache.onMutate({ tables: "users", tags: "other" });
+
+    expect(spans.map((span) => span.name)).toEqual([
+      "uncache.get",
+      "uncache.put",
+      "uncache.get",
+      "uncache.invalidate",
+    ]);
+    expect(spans[0]?.attributes).toMatchObject({
+      "db.cache.hit": false,
+      "db.cache.tables": ["users"],
+      "db.cache.driver": "memory",
+    });
+    expect(spans[1]?.attributes).toMatchObject({ "db.cache.tag": "tagged", "db.cache.ttl": 60 });
+    expect(spans[2]?.attributes).toMatchObject({ "db.cache.hit": true, "db.cache.tier": "l2" });
+    expect(spans[3]?.attributes).toMatchObject({
+      "db.cache.tables": ["users"],
+      "db.cache.tags": ["other"],
+      "db.cache.removed": 1,
+    });
+    expect(spans.every((span) => span.ended)).toBe(true);
+    expect(records.filter((r) => r.name === "db.cache.hits")).toHaveLength(1);
+    expect(records.filter((r) => r.name === "db.cache.misses")).toHaveLength(1);
+    expect(records.filter((r) => r.name === "db.cache.duration")).toHaveLength(5);
+
+    uninstrument();
+    await cache.get("k1", ["users"], false, true);
+    expect(spans).toHaveLength(4);
+  });
+
+  it("marks spans of failed calls as errors", async () => {
+    const { spans, tracer, meter } = createTelemetry();
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    const uninstrument = await instrumentCache(cache, { tracer, meter });
+    vi.spyOn(storage, "getKeys").mockRejectedValueOnce(new Error("connection reset"));
+
+    await expect(cache.onMutate({ tables: "users" })).rejects.toThrow("connection reset");
+    expect(spans).toEqual([
+      expect.objectContaining({ name: "uncache.invalidate", status: { code: 2 }, ended: true }),
+    ]);
+    vi.restoreAllMocks();
+    uninstrument();
+  });
+
+  it("falls back to the global OpenTelemetry API", async () => {
+    const cache = unstorageCache({ storage: createStorage() });
+    const uninstrument = await instrumentCache(cache);
+
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    uninstrument();
+  });
+});
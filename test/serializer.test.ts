@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { typedJsonSerializer } from "../src/serializer";
+
+describe("typed JSON serializer", () => {
+  it("round-trips non-JSON column types", () => {
+    const rows = [
+      {
+        createdAt: new Date("2025-01-01T00:00:00.000Z"),
+        big: 9007199254740993n,
+        bytes: new Uint8Array([0, 1, 254, 255]),
+        map: new Map([["a", 1]]),
+        set: new Set(["x"]),
+        numeric: "12.50",
+        nested: { at: new Date(0), list: [1n] },
+      },
+    ];
+
+    const encoded = typedJsonSerializer.encode(rows);
+    expect(typeof encoded).toBe("string");
+    expect(typedJsonSerializer.decode(encoded)).toEqual(rows);
+  });
+
+  it("decodes Buffer values as Uint8Array", () => {
+    const decoded = typedJsonSerializer.decode(
+      typedJsonSerializer.encode([{ b: Buffer.from("hi") }]),
+    ) as { b: Uint8Array }[];
+    expect(decoded[0]?.b).toBeInstanceOf(Uint8Array);
+    expect(Array.from(decoded[0]?.b ?? [])).toEqual([104, 105]);
+  });
+});
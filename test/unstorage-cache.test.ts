@@ -1,8 +1,15 @@
+import { and, eq, inArray, or, type Table } from "drizzle-orm";
+import { hashQuery } from "drizzle-orm/cache/core";
 import type { CacheConfig } from "drizzle-orm/cache/core/types";
 import { pgTable, serial, text } from "drizzle-orm/pg-core";
 import { createStorage } from "unstorage";
 import memoryDriver from "unstorage/drivers/memory";
 import { describe, expect, it, vi } from "vitest";
+import { dependsOn, rowKeys, withTags } from "../src/dependencies";
+import { memoryInvalidationTransport, storageInvalidationTransport } from "../src/invalidation";
+import { schemaVersion } from "../src/schema-version";
+import { typedJsonSerializer } from "../src/serializer";
+import type { CacheEntry, CachePolicy } from "../src/types";
 import { UnstorageCache, unstorageCache } from "../src/unstorage-cache";
 
 describe("unstorage cache adapter", () => {
@@ -156,6 +163,1409 @@ describe("unstorage cache adapter", () => {
     }
   });
 
+  it("serves stale entries during staleTtl while one reader refreshes", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage({ driver: memoryDriver() });
+      const cache = unstorageCache({ storage, config: { ex: 1 }, staleTtl: 5 });
+
+      await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 1 });
+      vi.advanceTimersByTime(1500);
+
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 1 }]);
+
+      await cache.put("k1", [{ v: 2 }], ["users"], false, { ex: 1 });
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 2 }]);
+
+      vi.advanceTimersByTime(6500);
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+      await expect(storage.getKeys()).resolves.toHaveLength(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("coalesces concurrent misses of the same key", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, singleFlight: true });
+
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    const waiting = cache.get("k1", ["users"], false, true);
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await expect(waiting).resolves.toEqual([{ v: 1 }]);
+  });
+
+  it("coalesces misses across instances with a storage lease", async () => {
+    const storage = createStorage();
+    const options = { storage, config: { ex: 60 }, singleFlight: { lock: true, pollMs: 5 } };
+    const first = unstorageCache(options);
+    const second = unstorageCache(options);
+
+    await expect(first.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    const waiting = second.get("k1", ["users"], false, true);
+
+    await first.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await expect(waiting).resolves.toEqual([{ v: 1 }]);
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.includes("__LOCK__"))).toBe(false);
+  });
+
+  it("coalesces concurrent local misses with a storage lease", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      singleFlight: { lock: true, pollMs: 5 },
+    });
+
+    const results = Array.from({ length: 10 }, () => cache.get("k1", ["users"], false, true));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    const values = await Promise.all(results);
+    expect(values.filter((value) => value === undefined)).toHaveLength(1);
+  });
+
+  it("records a single outcome per coalesced get", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      singleFlight: { lock: true, pollMs: 5 },
+    });
+    const other = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      singleFlight: { lock: true, pollMs: 5 },
+    });
+    const misses: string[] = [];
+    cache.on("miss", (event) => misses.push(event.reason));
+
+    await expect(other.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    const leader = cache.get("k1", ["users"], false, true);
+    const follower = cache.get("k1", ["users"], false, true);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await other.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+
+    await expect(Promise.all([leader, follower])).resolves.toEqual([[{ v: 1 }], [{ v: 1 }]]);
+    expect(misses).toEqual([]);
+    expect(cache.getStats()).toMatchObject({ hits: { l1: 0, l2: 2 }, misses: 0 });
+
+    await expect(cache.get("k2", ["users"], false, true)).resolves.toBeUndefined();
+    expect(misses).toEqual(["missing"]);
+    expect(cache.getStats()).toMatchObject({ misses: 1 });
+  });
+
+  it("keeps local tier values apart from the caller's rows", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, local: true });
+    const rows = [{ name: "Ada" }];
+
+    await cache.put("k1", rows, ["users"], false);
+    rows[0] = { name: "mutated by caller" };
+    const hit = await cache.get("k1", ["users"], false, true);
+    expect(hit).toEqual([{ name: "Ada" }]);
+    (hit as { name: string }[])[0] = { name: "mutated by caller" };
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ name: "Ada" }]);
+  });
+
+  it("falls back to the database when the leader never populates", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, singleFlight: { waitMs: 20 } });
+
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+  });
+
+  it("round-trips values through a serializer", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, serializer: typedJsonSerializer });
+    const rows = [{ at: new Date("2025-01-01T00:00:00.000Z"), big: 10n }];
+
+    await cache.put("k1", rows, ["users"], false, { ex: 60 });
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual(rows);
+  });
+
+  it("treats entries written with another codec as misses", async () => {
+    const storage = createStorage();
+    const plain = unstorageCache({ storage, config: { ex: 60 } });
+    const typed = unstorageCache({ storage, config: { ex: 60 }, serializer: typedJsonSerializer });
+
+    await plain.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await expect(typed.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+
+    await typed.put("k1", [{ v: 2 }], ["users"], false, { ex: 60 });
+    await expect(plain.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(typed.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 2 }]);
+  });
+
+  it.each([
+    "gzip",
+    "deflate",
+    "brotli",
+  ] as const)("compresses values above the threshold with %s", async (algorithm) => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      compression: { algorithm, threshold: 64 },
+    });
+    const rows = Array.from({ length: 50 }, (_, id) => ({ id, name: "same name" }));
+
+    await cache.put("big", rows, ["users"], false, { ex: 60 });
+    await cache.put("small", [{ id: 1 }], ["users"], false, { ex: 60 });
+
+    const keys = await storage.getKeys();
+    const bigEntry = await storage.getItem<{ compression?: string }>(
+      keys.find((key) => key.includes("__CT__") && key.endsWith("big")) ?? "",
+    );
+    expect(bigEntry?.compression).toBe(algorithm);
+    await expect(cache.get("big", ["users"], false, true)).resolves.toEqual(rows);
+    await expect(cache.get("small", ["users"], false, true)).resolves.toEqual([{ id: 1 }]);
+  });
+
+  it("reads compressed and uncompressed entries side by side", async () => {
+    const storage = createStorage();
+    const plain = unstorageCache({ storage, config: { ex: 60 } });
+    const compressed = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      compression: { threshold: 1 },
+    });
+
+    await plain.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await compressed.put("k2", [{ v: 2 }], ["users"], false, { ex: 60 });
+
+    await expect(compressed.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 1 }]);
+    await expect(plain.get("k2", ["users"], false, true)).resolves.toEqual([{ v: 2 }]);
+  });
+
+  it("serves from the local tier and reports the hit tier", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, local: true });
+    const reader = unstorageCache({ storage, config: { ex: 60 }, local: true });
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 1 }]);
+    await expect(reader.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 1 }]);
+    await expect(reader.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 1 }]);
+    await expect(reader.get("k2", ["users"], false, true)).resolves.toBeUndefined();
+
+    expect(cache.getStats()).toMatchObject({ hits: { l1: 1, l2: 0 }, misses: 0 });
+    expect(reader.getStats()).toMatchObject({ hits: { l1: 1, l2: 1 }, misses: 1 });
+  });
+
+  it("clears the local tier on invalidation", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, local: { maxEntries: 10 } });
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await cache.put("tagged", [{ v: 2 }], ["users"], true, { ex: 60 });
+    await cache.put("plain", [{ v: 3 }], [], true, { ex: 60 });
+
+    await cache.onMutate({ tables: "users", tags: "plain" });
+
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("tagged", ["users"], true, true)).resolves.toBeUndefined();
+    await expect(cache.get("plain", [], true, false)).resolves.toBeUndefined();
+  });
+
+  it("evicts least recently used keys from the local tier", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, local: { maxEntries: 1 } });
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await cache.put("k2", [{ v: 2 }], ["users"], false, { ex: 60 });
+    await cache.get("k1", ["users"], false, true);
+
+    expect(cache.getStats().hits).toEqual({ l1: 0, l2: 1 });
+  });
+
+  it("clears other instances' local tiers through the invalidation bus", async () => {
+    const storage = createStorage();
+    const transport = memoryInvalidationTransport();
+    const publish = vi.spyOn(transport, "publish");
+    const options = { storage, config: { ex: 60 }, local: true, invalidation: { transport } };
+    const writer = unstorageCache(options);
+    const reader = unstorageCache(options);
+
+    await writer.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await writer.put("tagged", [{ v: 2 }], [], true, { ex: 60 });
+    await reader.get("k1", ["users"], false, true);
+    await reader.get("tagged", [], true, false);
+
+    await writer.onMutate({ tables: "users", tags: "tagged" });
+
+    expect(publish).toHaveBeenCalledWith({
+      source: writer.instanceId,
+      tables: ["users"],
+      tags: ["tagged"],
+      keys: [],
+    });
+    await expect(reader.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(reader.get("tagged", [], true, false)).resolves.toBeUndefined();
+    expect(reader.getStats().hits).toEqual({ l1: 0, l2: 2 });
+  });
+
+  it("publishes key invalidations on the invalidation bus", async () => {
+    const storage = createStorage();
+    const transport = memoryInvalidationTransport();
+    const options = { storage, config: { ex: 60 }, local: true, invalidation: { transport } };
+    const a = unstorageCache(options);
+    const b = unstorageCache(options);
+
+    await a.put("user1", [{ id: 1 }], [], false, dependsOn(["users:1"]));
+    await expect(b.get("user1", [], false, false)).resolves.toEqual([{ id: 1 }]);
+
+    await a.invalidateKeys(["users:1"]);
+    await expect(b.get("user1", [], false, false)).resolves.toBeUndefined();
+    expect(b.getStats().hits).toEqual({ l1: 0, l2: 1 });
+  });
+
+  it("applies remote invalidations to process-local storage", async () => {
+    const transport = memoryInvalidationTransport();
+    const first = unstorageCache({
+      storage: createStorage(),
+      config: { ex: 60 },
+      invalidation: { transport, applyToStorage: true },
+    });
+    const second = unstorageCache({
+      storage: createStorage(),
+      config: { ex: 60 },
+      invalidation: { transport, applyToStorage: true },
+    });
+
+    await first.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await second.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await first.onMutate({ tables: "users" });
+
+    await expect(second.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+  });
+
+  it("clears its local tier when another instance already removed the index keys", async () => {
+    const storage = createStorage();
+    const a = unstorageCache({ storage, config: { ex: 60 }, local: true });
+    const b = unstorageCache({ storage, config: { ex: 60 }, local: true });
+
+    await a.put("k1", [{ n: 1 }], ["users"], false);
+    await expect(a.get("k1", ["users"], false, true)).resolves.toEqual([{ n: 1 }]);
+    await b.onMutate({ tables: "users" });
+    await a.onMutate({ tables: "users" });
+    await expect(a.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+  });
+
+  it("delivers invalidations through storage watch", async () => {
+    const storage = createStorage();
+    const options = {
+      storage,
+      config: { ex: 60 },
+      local: true,
+      invalidation: { transport: storageInvalidationTransport(storage) },
+    };
+    const writer = unstorageCache(options);
+    const reader = unstorageCache(options);
+
+    await writer.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await reader.get("k1", ["users"], false, true);
+    await writer.onMutate({ tables: "users" });
+
+    await vi.waitFor(async () => {
+      await expect(reader.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    });
+    await Promise.all([writer.dispose(), reader.dispose()]);
+  });
+
+  it("reports failed deliveries and subscriptions as errors", async () => {
+    const storage = createStorage();
+    const transport = storageInvalidationTransport(storage);
+    const options = { storage, config: { ex: 60 }, local: true, invalidation: { transport } };
+    const writer = unstorageCache(options);
+    const reader = unstorageCache(options);
+    const errors = vi.fn();
+    reader.on("error", errors);
+
+    const getItem = storage.getItem.bind(storage);
+    vi.spyOn(storage, "getItem").mockImplementation(async (key, opts) => {
+      if (key.includes("__BUS__")) throw new Error("connection reset");
+      return getItem(key, opts);
+    });
+    await writer.onMutate({ tables: "users" });
+    await vi.waitFor(() => {
+      expect(errors).toHaveBeenCalledWith(expect.objectContaining({ operation: "invalidate" }));
+    });
+    vi.restoreAllMocks();
+    await Promise.all([writer.dispose(), reader.dispose()]);
+
+    vi.spyOn(storage, "watch").mockRejectedValueOnce(new Error("watch unsupported"));
+    const unsubscribed = unstorageCache(options);
+    const subscribeErrors = vi.fn();
+    unsubscribed.on("error", subscribeErrors);
+    await vi.waitFor(() => {
+      expect(subscribeErrors).toHaveBeenCalledTimes(1);
+    });
+    vi.restoreAllMocks();
+    await unsubscribed.dispose();
+  });
+
+  it("invalidates tables by bumping generations in version strategy", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, invalidationStrategy: "version" });
+
+    await cache.put("k1", [{ n: 1 }], ["users", "posts"], false, { ex: 60 });
+    await cache.put("k2", [{ n: 2 }], ["posts"], false, { ex: 60 });
+    await cache.put("tagged", [{ n: 3 }], ["users"], true, { ex: 60 });
+    await expect(cache.get("k1", ["users", "posts"], false, true)).resolves.toEqual([{ n: 1 }]);
+    await expect(cache.get("tagged", ["users"], true, true)).resolves.toEqual([{ n: 3 }]);
+
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.includes("__CTS__"))).toBe(false);
+
+    await cache.onMutate({ tables: "users" });
+
+    await expect(cache.get("k1", ["users", "posts"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("tagged", ["users"], true, true)).resolves.toBeUndefined();
+    await expect(cache.get("k2", ["posts"], false, true)).resolves.toEqual([{ n: 2 }]);
+  });
+
+  it("invalidates tags in version strategy", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, invalidationStrategy: "version" });
+
+    await cache.put("tagged", [{ n: 1 }], ["users"], true, { ex: 60 });
+    await cache.onMutate({ tags: "tagged" });
+
+    await expect(cache.get("tagged", ["users"], true, true)).resolves.toBeUndefined();
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.includes("tagged"))).toBe(false);
+  });
+
+  it("keeps index and version layouts apart", async () => {
+    const storage = createStorage();
+    const indexed = unstorageCache({ storage, config: { ex: 60 } });
+    const versioned = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      invalidationStrategy: "version",
+    });
+
+    await indexed.put("k1", [{ n: 1 }], ["users"], false, { ex: 60 });
+    await expect(versioned.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+  });
+
+  it("collects stats with per-table and per-tag breakdowns", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage();
+      const cache = unstorageCache({ storage, config: { ex: 60 }, stats: { breakdown: true } });
+
+      await cache.get("k1", ["users"], false, true);
+      await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+      await cache.put("tagged", [{ v: 2 }], ["posts"], true, { ex: 1 });
+      await cache.get("k1", ["users"], false, true);
+      vi.advanceTimersByTime(1500);
+      await cache.get("tagged", ["posts"], true, true);
+      await cache.onMutate({ tables: "users", tags: "tagged" });
+
+      const stats = cache.getStats();
+      expect(stats).toMatchObject({
+        hits: { l1: 0, l2: 1 },
+        staleHits: 0,
+        misses: 2,
+        expirations: 1,
+        puts: 2,
+        invalidations: { tables: 1, tags: 1 },
+        byTable: {
+          users: { hits: 1, misses: 1, puts: 1, invalidations: 1 },
+          posts: { hits: 0, misses: 1, puts: 1, invalidations: 0 },
+        },
+        byTag: { tagged: { hits: 0, misses: 1, puts: 1, invalidations: 1 } },
+      });
+      expect(stats.bytesWritten).toBeGreaterThan(0);
+
+      cache.resetStats();
+      expect(cache.getStats()).toEqual({
+        hits: { l1: 0, l2: 0 },
+        staleHits: 0,
+        misses: 0,
+        expirations: 0,
+        puts: 0,
+        bytesWritten: 0,
+        invalidations: { tables: 0, tags: 0 },
+        byTable: {},
+        byTag: {},
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("emits typed lifecycle events", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage();
+      const cache = unstorageCache({ storage, config: { ex: 60 } });
+      const events: string[] = [];
+      const put = vi.fn();
+      cache.on("hit", (event) => events.push(`hit:${event.key}:${event.tier}`));
+      cache.on("miss", (event) => events.push(`miss:${event.key}:${event.reason}`));
+      cache.on("expired", (event) => events.push(`expired:${event.key}`));
+      cache.on("drop", (event) => events.push(`drop:${event.keyEnc}`));
+      cache.on("invalidate", (event) => events.push(`invalidate:${event.tables.join(",")}`));
+      const offPut = cache.on("put", put);
+
+      await cache.get("k1", ["users"], false, true);
+      await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 1 });
+      await cache.get("k1", ["users"], false, true);
+      vi.advanceTimersByTime(1500);
+      await cache.get("k1", ["users"], false, true);
+      await cache.onMutate({ tables: "users" });
+      offPut();
+      await cache.put("k2", [{ v: 2 }], ["users"], false, { ex: 1 });
+
+      expect(events).toEqual([
+        "miss:k1:missing",
+        "hit:k1:l2",
+        "drop:k1",
+        "expired:k1",
+        "miss:k1:expired",
+        "invalidate:users",
+      ]);
+      expect(put).toHaveBeenCalledTimes(1);
+      expect(put).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: "k1",
+          keyEnc: "k1",
+          tables: ["users"],
+          isTag: false,
+          ttlSeconds: 1,
+          durationMs: expect.any(Number),
+        }),
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("keeps serving when an event listener throws", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    cache.on("hit", () => {
+      throw new Error("listener failed");
+    });
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ v: 1 }]);
+  });
+
+  it("lists and inspects cached entries", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+
+    await cache.put("k1", [{ v: 1 }], ["users", "posts"], false, { ex: 60 });
+    await cache.put("k2", [{ v: 2 }], ["posts"], false, { ex: 60 });
+    await cache.put("tagged", [{ v: 3 }], [], true, { ex: 60 });
+
+    const all = await cache.listEntries();
+    expect(all.map((info) => info.key).sort()).toEqual(["k1", "k2", "tagged"]);
+
+    const users = await cache.listEntries({ table: "users" });
+    expect(users).toEqual([
+      expect.objectContaining({
+        key: "k1",
+        isTag: false,
+        autoInvalidate: true,
+        tables: ["users", "posts"],
+        expiresAt: expect.any(Number),
+        size: expect.any(Number),
+      }),
+    ]);
+
+    await expect(cache.inspect("k2")).resolves.toMatchObject({ tables: ["posts"] });
+    await expect(cache.inspect("k2", { tables: ["posts"] })).resolves.toMatchObject({ key: "k2" });
+    await expect(cache.inspect("tagged", { isTag: true })).resolves.toMatchObject({
+      isTag: true,
+      autoInvalidate: false,
+    });
+    await expect(cache.inspect("missing")).resolves.toBeUndefined();
+  });
+
+  it("purges by table, tag, key and everything", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    const onInvalidate = vi.fn();
+    cache.on("invalidate", onInvalidate);
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await cache.put("k2", [{ v: 2 }], ["posts"], false, { ex: 60 });
+    await cache.put("k3", [{ v: 3 }], ["comments"], false, { ex: 60 });
+    await cache.put("tagged", [{ v: 4 }], ["posts"], true, { ex: 60 });
+
+    await cache.purgeTables("users");
+    await cache.purgeTags("tagged");
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("tagged", ["posts"], true, true)).resolves.toBeUndefined();
+    expect(onInvalidate).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().invalidations).toEqual({ tables: 0, tags: 0 });
+
+    await expect(cache.deleteEntry("k2")).resolves.toBe(true);
+    await expect(cache.deleteEntry("k2")).resolves.toBe(false);
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.endsWith(":k2"))).toBe(false);
+
+    await expect(cache.purgeAll()).resolves.toBeGreaterThan(0);
+    await expect(storage.getKeys()).resolves.toHaveLength(0);
+  });
+
+  it("sweeps expired entries and orphaned index and tag-map keys", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage({ driver: memoryDriver() });
+      const cache = unstorageCache({ storage, config: { ex: 60 } });
+
+      await cache.put("expiring", [{ v: 1 }], ["users"], false, { ex: 1 });
+      await cache.put("orphan", [{ v: 2 }], ["users", "posts"], true, { ex: 60 });
+      await cache.put("kept", [{ v: 3 }], ["users"], false, { ex: 60 });
+      const orphanValueKey = (await storage.getKeys()).find(
+        (key) => key.includes("__CT__") && key.endsWith(":orphan"),
+      );
+      await storage.removeItem(orphanValueKey ?? "");
+
+      vi.advanceTimersByTime(1500);
+      await expect(cache.sweep()).resolves.toEqual({
+        entries: 1,
+        indexKeys: 3,
+        tagMaps: 1,
+        removed: 5,
+      });
+
+      const keys = await storage.getKeys();
+      expect(keys.every((key) => key.endsWith(":kept"))).toBe(true);
+      await expect(cache.get("kept", ["users"], false, true)).resolves.toEqual([{ v: 3 }]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("sweeps entries of outdated generations in version strategy", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, invalidationStrategy: "version" });
+
+    await cache.put("k1", [{ v: 1 }], ["users"], false, { ex: 60 });
+    await cache.put("k2", [{ v: 2 }], ["posts"], false, { ex: 60 });
+    await cache.onMutate({ tables: "users" });
+
+    await expect(cache.sweep()).resolves.toMatchObject({ entries: 1 });
+    await expect(cache.get("k2", ["posts"], false, true)).resolves.toEqual([{ v: 2 }]);
+  });
+
+  it("warms registered loaders with limited concurrency and reports failures", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, warmup: { concurrency: 2 } });
+    let active = 0;
+    let maxActive = 0;
+    const load = (rows: unknown[]) => async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return rows;
+    };
+
+    cache.register({ key: "q1", tables: ["users"], load: load([{ n: 1 }]) });
+    cache.register({ key: "q2", tables: ["users"], load: load([{ n: 2 }]) });
+    cache.register({ key: "top", tables: ["posts"], isTag: true, load: load([{ n: 3 }]) });
+    const error = new Error("boom");
+    cache.register({ key: "broken", tables: ["posts"], load: () => Promise.reject(error) });
+
+    const result = await cache.warm();
+    expect(result.refreshed.sort()).toEqual(["q1", "q2", "top"]);
+    expect(result.failed).toEqual([{ key: "broken", error }]);
+    expect(maxActive).toBe(2);
+    await expect(cache.get("q2", ["users"], false, true)).resolves.toEqual([{ n: 2 }]);
+    await expect(cache.get("top", ["posts"], true, true)).resolves.toEqual([{ n: 3 }]);
+
+    await expect(cache.warm({ tables: "users" })).resolves.toEqual({
+      refreshed: ["q1", "q2"],
+      failed: [],
+    });
+
+    const unhashable = {
+      toSQL: () => {
+        throw error;
+      },
+      execute: load([]),
+    };
+    cache.register({ query: unhashable, tables: ["comments"] });
+    await expect(cache.warm({ tables: "comments" })).resolves.toEqual({
+      refreshed: [],
+      failed: [{ key: undefined, error }],
+    });
+  });
+
+  it("re-warms registered queries after their tables are invalidated", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, warmup: { delayMs: 0 } });
+    let version = 0;
+    const users = pgTable("users", { id: serial("id").primaryKey() });
+    const query = {
+      toSQL: () => ({ sql: 'select "id" from "users" where "id" = $1', params: [1] }),
+      execute: async () => [{ version: ++version }],
+    };
+    cache.register({ query, tables: users });
+    const key = await hashQuery(query.toSQL().sql, query.toSQL().params);
+
+    await cache.warm();
+    await expect(cache.get(key, ["users"], false, true)).resolves.toEqual([{ version: 1 }]);
+
+    await cache.onMutate({ tables: "users" });
+    await expect(cache.get(key, ["users"], false, true)).resolves.toBeUndefined();
+    await vi.waitFor(() =>
+      expect(cache.get(key, ["users"], false, true)).resolves.toEqual([{ version: 2 }]),
+    );
+
+    await cache.onMutate({ tables: "posts" });
+    await cache.dispose();
+    expect(version).toBe(2);
+  });
+
+  it("applies the strictest table and tag policy", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage();
+      const countries = pgTable("countries", { id: serial("id").primaryKey() });
+      const cache = unstorageCache({
+        storage,
+        config: { ex: 60 },
+        policies: {
+          tables: new Map<Table | string, CachePolicy>([
+            [countries, { ex: 86_400 }],
+            ["sessions", { ex: 5 }],
+          ]),
+          tags: { "user:*": { ex: 10 } },
+        },
+      });
+
+      await cache.put("c", [{ n: 1 }], ["countries"], false);
+      await cache.put("cs", [{ n: 2 }], ["countries", "sessions"], false);
+      await cache.put("user:1", [{ n: 3 }], ["countries"], true);
+      await cache.put("own", [{ n: 4 }], ["sessions"], false, { ex: 60 });
+
+      vi.advanceTimersByTime(6000);
+      await expect(
+        cache.get("cs", ["countries", "sessions"], false, true),
+      ).resolves.toBeUndefined();
+      await expect(cache.get("own", ["sessions"], false, true)).resolves.toEqual([{ n: 4 }]);
+
+      vi.advanceTimersByTime(5000);
+      await expect(cache.get("user:1", ["countries"], true, true)).resolves.toBeUndefined();
+
+      vi.advanceTimersByTime(3_600_000);
+      await expect(cache.get("c", ["countries"], false, true)).resolves.toEqual([{ n: 1 }]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("bypasses tables and tags with a false policy even when global", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      global: true,
+      config: { ex: 60 },
+      policies: { tables: { audit_log: false }, tags: { "nocache:*": false } },
+    });
+
+    await cache.put("q", [{ n: 1 }], ["users", "audit_log"], false);
+    await cache.put("nocache:1", [{ n: 2 }], [], true);
+    await expect(storage.getKeys()).resolves.toHaveLength(0);
+    await expect(cache.get("q", ["users", "audit_log"], false, true)).resolves.toBeUndefined();
+    expect(cache.getStats().misses).toBe(0);
+  });
+
+  it("applies table policies to autoInvalidate: false queries", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage();
+      const cache = unstorageCache({
+        storage,
+        global: true,
+        config: { ex: 60 },
+        policies: { tables: { audit_log: false, sessions: { ex: 5 } } },
+      });
+
+      await expect(cache.get("audit", ["audit_log"], false, false)).resolves.toBeUndefined();
+      await cache.put("audit", [{ n: 1 }], [], false);
+      await expect(storage.getKeys()).resolves.toHaveLength(0);
+
+      await expect(cache.get("session", ["sessions"], false, false)).resolves.toBeUndefined();
+      await cache.put("session", [{ n: 2 }], [], false);
+      await expect(cache.get("session", ["sessions"], false, false)).resolves.toEqual([{ n: 2 }]);
+      vi.advanceTimersByTime(6000);
+      await expect(cache.get("session", ["sessions"], false, false)).resolves.toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("skips entries above maxEntryBytes", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, maxEntryBytes: 200 });
+    const skip = vi.fn();
+    cache.on("skip", skip);
+
+    await cache.put("small", [{ n: 1 }], ["users"], false);
+    await cache.put("big", [{ text: "x".repeat(500) }], ["users"], false);
+
+    await expect(cache.get("small", ["users"], false, true)).resolves.toEqual([{ n: 1 }]);
+    await expect(cache.get("big", ["users"], false, true)).resolves.toBeUndefined();
+    expect(skip).toHaveBeenCalledTimes(1);
+    expect(skip.mock.calls[0]?.[0]).toMatchObject({ key: "big", reason: "size" });
+    expect(skip.mock.calls[0]?.[0].bytes).toBeGreaterThan(200);
+  });
+
+  it.each([
+    { policy: "lru" as const, evicted: "k2" },
+    { policy: "lfu" as const, evicted: "k1" },
+  ])("evicts entries over the $policy budget", async ({ policy, evicted }) => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage();
+      const cache = unstorageCache({
+        storage,
+        config: { ex: 60 },
+        eviction: { maxEntries: 2, policy },
+      });
+      const evict = vi.fn();
+      cache.on("evict", evict);
+
+      await cache.put("k1", [{ n: 1 }], ["users"], false);
+      vi.advanceTimersByTime(10);
+      await cache.put("k2", [{ n: 2 }], ["users"], false);
+      vi.advanceTimersByTime(10);
+      for (let i = 0; i < 3; i++) await cache.get("k2", ["users"], false, true);
+      vi.advanceTimersByTime(10);
+      await cache.get("k1", ["users"], false, true);
+      vi.advanceTimersByTime(10);
+      await cache.put("k3", [{ n: 3 }], ["users"], false);
+
+      expect(evict).toHaveBeenCalledTimes(1);
+      expect(evict.mock.calls[0]?.[0]).toMatchObject({ key: evicted, policy });
+      await expect(cache.get(evicted, ["users"], false, true)).resolves.toBeUndefined();
+      await expect(cache.get("k3", ["users"], false, true)).resolves.toEqual([{ n: 3 }]);
+      const keys = await storage.getKeys();
+      expect(keys.filter((key) => key.includes("__META__"))).toHaveLength(2);
+      expect(keys.some((key) => key.endsWith(`:${evicted}`))).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("keeps a running byte total and only reads entry metadata over budget", async () => {
+    const storage = createStorage();
+    // entries below are 64 bytes each
+    const cache = unstorageCache({ storage, config: { ex: 60 }, eviction: { maxBytes: 200 } });
+    const evict = vi.fn();
+    cache.on("evict", evict);
+    const getItems = vi.spyOn(storage, "getItems");
+    const metaReads = () =>
+      getItems.mock.calls.filter(([items]) =>
+        items.some((item) =>
+          String(typeof item === "string" ? item : item.key).includes("__META__"),
+        ),
+      ).length;
+
+    await cache.put("k1", [{ n: 1 }], ["users"], false);
+    expect(metaReads()).toBe(1);
+    await cache.put("k2", [{ n: 2 }], ["users"], false);
+    await cache.put("k3", [{ n: 3 }], ["posts"], false);
+    await cache.onMutate({ tables: "posts" });
+    await cache.put("k4", [{ n: 4 }], ["posts"], false);
+    expect(metaReads()).toBe(1);
+    expect(evict).not.toHaveBeenCalled();
+
+    await cache.put("k5", [{ n: 5 }], ["posts"], false);
+    expect(metaReads()).toBe(2);
+    expect(evict).toHaveBeenCalledTimes(1);
+    expect(evict.mock.calls[0]?.[0]).toMatchObject({ key: "k1" });
+    vi.restoreAllMocks();
+  });
+
+  it("keeps a running entry count and only lists entry metadata over budget", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, eviction: { maxEntries: 2 } });
+    const evict = vi.fn();
+    cache.on("evict", evict);
+    const getKeys = vi.spyOn(storage, "getKeys");
+
+    await cache.put("k1", [{ n: 1 }], ["users"], false);
+    expect(getKeys).toHaveBeenCalledTimes(1);
+    await cache.put("k2", [{ n: 2 }], ["users"], false);
+    await cache.put("k2", [{ n: 3 }], ["users"], false);
+    await cache.put("k1", [{ n: 4 }], ["users"], false);
+    expect(getKeys).toHaveBeenCalledTimes(1);
+    expect(evict).not.toHaveBeenCalled();
+
+    await cache.put("k3", [{ n: 5 }], ["users"], false);
+    expect(getKeys).toHaveBeenCalledTimes(2);
+    expect(evict).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+    const keys = await storage.getKeys();
+    expect(keys.filter((key) => key.includes("__META__"))).toHaveLength(2);
+  });
+
+  it("fails open on storage errors and opens the circuit after repeated failures", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+      const storage = createStorage();
+      const cache = unstorageCache({
+        storage,
+        config: { ex: 60 },
+        resilience: { failureThreshold: 3, cooldown: 10 },
+      });
+      await cache.put("k1", [{ n: 1 }], ["users"], false);
+      const errors = vi.fn();
+      cache.on("error", errors);
+
+      const down = new Error("connection refused");
+      const getItem = vi.spyOn(storage, "getItem").mockRejectedValue(down);
+      vi.spyOn(storage, "setItems").mockRejectedValue(down);
+      vi.spyOn(storage, "getKeys").mockRejectedValue(down);
+
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+      await expect(cache.put("k2", [{ n: 2 }], ["users"], false)).resolves.toBeUndefined();
+      await expect(cache.onMutate({ tables: "users" })).resolves.toBeUndefined();
+      expect(errors.mock.calls.map(([event]) => event.operation)).toEqual([
+        "get",
+        "put",
+        "invalidate",
+      ]);
+      expect(cache.getStats().misses).toBe(1);
+
+      getItem.mockClear();
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+      expect(getItem).not.toHaveBeenCalled();
+      expect(errors).toHaveBeenCalledTimes(3);
+
+      vi.restoreAllMocks();
+      vi.advanceTimersByTime(10_000);
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ n: 1 }]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("times out slow storage calls and keeps invalidation failures fatal when strict", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      resilience: { timeoutMs: 20, strictInvalidation: true },
+    });
+    vi.spyOn(storage, "getItem").mockReturnValue(new Promise(() => {}));
+    vi.spyOn(storage, "getKeys").mockRejectedValue(new Error("connection refused"));
+
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.onMutate({ tables: "users" })).rejects.toThrow("connection refused");
+    vi.restoreAllMocks();
+  });
+
+  it("times out slow single-flight lease calls", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      singleFlight: { lock: true },
+      resilience: { timeoutMs: 20 },
+    });
+    const errors = vi.fn();
+    cache.on("error", errors);
+    const getItem = storage.getItem.bind(storage);
+    vi.spyOn(storage, "getItem").mockImplementation((key, ...rest) =>
+      key.includes("__LOCK__") ? new Promise(() => {}) : getItem(key, ...rest),
+    );
+
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    expect(errors.mock.calls.map(([event]) => event.operation)).toEqual(["get"]);
+    vi.restoreAllMocks();
+  });
+
+  it("retries half-finished invalidations and treats their tables as missed meanwhile", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      durableInvalidation: { retryDelayMs: 5 },
+    });
+    await cache.put("k1", [{ n: 1 }], ["users"], false);
+    await cache.put("k2", [{ n: 2 }], ["users", "posts"], false);
+    await cache.put("k3", [{ n: 3 }], ["posts"], false);
+    const errors = vi.fn();
+    cache.on("error", errors);
+
+    const removeItem = storage.removeItem.bind(storage);
+    let failures = 1;
+    vi.spyOn(storage, "removeItem").mockImplementation(async (key, opts) => {
+      if (key.endsWith(":k2") && key.includes("__CT__") && failures-- > 0) {
+        throw new Error("connection reset");
+      }
+      return removeItem(key, opts);
+    });
+
+    await expect(cache.onMutate({ tables: "users" })).resolves.toBeUndefined();
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect((await storage.getKeys()).some((key) => key.endsWith("__CT__:posts,users:q:k2"))).toBe(
+      true,
+    );
+    await expect(cache.get("k2", ["users", "posts"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("k3", ["posts"], false, true)).resolves.toEqual([{ n: 3 }]);
+
+    await vi.waitFor(async () => {
+      const keys = await storage.getKeys();
+      expect(keys.filter((key) => key.includes("__PENDING__") || key.includes("__CT__:"))).toEqual([
+        "drizzle:cache:__CT__:posts:q:k3",
+      ]);
+    });
+    vi.restoreAllMocks();
+    await cache.dispose();
+  });
+
+  it("finishes invalidations left pending by another instance", async () => {
+    const storage = createStorage();
+    const crashed = unstorageCache({ storage, config: { ex: 60 }, durableInvalidation: true });
+    await crashed.put("k1", [{ n: 1 }], ["users"], false);
+    vi.spyOn(storage, "getKeys").mockRejectedValueOnce(new Error("connection reset"));
+    await crashed.onMutate({ tables: "users" });
+    await crashed.dispose();
+
+    const cache = unstorageCache({ storage, config: { ex: 60 }, durableInvalidation: true });
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.retryPendingInvalidations()).resolves.toBe(1);
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.includes("__PENDING__") || key.endsWith(":k1"))).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it("retries pending invalidations of every namespace", async () => {
+    const storage = createStorage();
+    let tenant: string | undefined;
+    const options = {
+      storage,
+      config: { ex: 60 },
+      durableInvalidation: true,
+      namespace: () => tenant,
+    };
+    const crashed = unstorageCache(options);
+    for (tenant of ["t7", "t8", undefined]) {
+      await crashed.put("k1", [{ n: 1 }], ["users"], false);
+      vi.spyOn(storage, "getKeys").mockRejectedValueOnce(new Error("connection reset"));
+      await crashed.onMutate({ tables: "users" });
+    }
+    vi.restoreAllMocks();
+    await crashed.dispose();
+
+    const cache = unstorageCache(options);
+    await expect(cache.retryPendingInvalidations()).resolves.toBe(3);
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.includes("__PENDING__") || key.endsWith(":k1"))).toBe(false);
+  });
+
+  it("treats pending tag patterns and additional tags as missed", async () => {
+    const storage = createStorage();
+    const crashed = unstorageCache({ storage, config: { ex: 60 }, durableInvalidation: true });
+    await crashed.put("tenant:7:users", [{ n: 1 }], [], true);
+    await crashed.put("q1", [{ n: 2 }], ["users"], false, withTags(["tenant:7"]));
+    await crashed.put("q2", [{ n: 3 }], ["users"], false, withTags(["tenant:8"]));
+    vi.spyOn(storage, "getKeys").mockRejectedValueOnce(new Error("connection reset"));
+    await crashed.onMutate({ tags: "tenant:7*" });
+    vi.restoreAllMocks();
+    await crashed.dispose();
+
+    const cache = unstorageCache({ storage, config: { ex: 60 }, durableInvalidation: true });
+    const getKeys = vi.spyOn(storage, "getKeys");
+    await expect(cache.get("tenant:7:users", [], true, false)).resolves.toBeUndefined();
+    await expect(cache.get("q1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("q2", ["users"], false, true)).resolves.toEqual([{ n: 3 }]);
+    expect(getKeys).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+    await expect(cache.retryPendingInvalidations()).resolves.toBe(1);
+    expect((await storage.getKeys()).some((key) => key.includes("__PENDING__"))).toBe(false);
+    await expect(cache.get("q2", ["users"], false, true)).resolves.toEqual([{ n: 3 }]);
+  });
+
+  it("defers invalidations until the transaction scope commits", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    await cache.put("k1", [{ n: 1 }], ["users"], false);
+    await cache.put("k2", [{ n: 2 }], ["posts"], false);
+    const transaction = <T>(fn: () => Promise<T>) => fn();
+
+    const result = await cache.deferInvalidation(() =>
+      transaction(async () => {
+        await cache.onMutate({ tables: "users" });
+        await expect(storage.getKeys()).resolves.toHaveLength(4);
+        await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+        await cache.put("k1", [{ n: "uncommitted" }], ["users"], false);
+        await expect(cache.get("k2", ["posts"], false, true)).resolves.toEqual([{ n: 2 }]);
+        return "committed";
+      }),
+    );
+
+    expect(result).toBe("committed");
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("k2", ["posts"], false, true)).resolves.toEqual([{ n: 2 }]);
+  });
+
+  it("drops deferred invalidations on rollback and re-invalidates after a delay", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    await cache.put("k1", [{ n: 1 }], ["users"], false);
+
+    await expect(
+      cache.deferInvalidation(async () => {
+        await cache.onMutate({ tables: "users" });
+        throw new Error("rollback");
+      }),
+    ).rejects.toThrow("rollback");
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ n: 1 }]);
+
+    await cache.deferInvalidation(
+      async () => {
+        await cache.deferInvalidation(() => cache.onMutate({ tags: "top" }));
+        await cache.onMutate({ tables: "users" });
+      },
+      { reinvalidateAfterMs: 10 },
+    );
+    await cache.put("k1", [{ n: "pre-commit" }], ["users"], false);
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ n: "pre-commit" }]);
+    await vi.waitFor(() =>
+      expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined(),
+    );
+    await cache.dispose();
+  });
+
+  it("invalidates entries by dependency key only", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+
+    await cache.put("user42", [{ id: 42 }], [], false, dependsOn(["users:42"]));
+    await cache.put("user7", [{ id: 7 }], [], false, dependsOn(["users:7"]));
+    await cache.put("all", [{ id: 7 }, { id: 42 }], ["users"], false, dependsOn(["users:42"]));
+    await cache.put("count", [{ n: 2 }], ["users"], false);
+    await expect(cache.inspect("user42", { tables: [] })).resolves.toMatchObject({
+      dependencies: ["users:42"],
+    });
+
+    await expect(cache.invalidateKeys(["users:42"])).resolves.toBe(2);
+    await expect(cache.get("user42", [], false, false)).resolves.toBeUndefined();
+    await expect(cache.get("all", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("user7", [], false, false)).resolves.toEqual([{ id: 7 }]);
+    await expect(cache.get("count", ["users"], false, true)).resolves.toEqual([{ n: 2 }]);
+    const leftovers = (await storage.getKeys()).filter((key) => key.includes("__DEP__"));
+    expect(leftovers).toEqual(["drizzle:cache:__DEP__:users%3A7:NAI:q:user7"]);
+  });
+
+  it("derives row keys from primary key conditions", async () => {
+    const users = pgTable("users", { id: serial("id").primaryKey(), name: text("name") });
+    expect(rowKeys(users, eq(users.id, 42))).toEqual(["users:42"]);
+    expect(rowKeys(users, inArray(users.id, [1, 2]))).toEqual(["users:1", "users:2"]);
+    expect(rowKeys(users, or(eq(users.id, 1), eq(users.id, 2)))).toEqual(["users:1", "users:2"]);
+    expect(rowKeys(users, and(eq(users.name, "Ada"), eq(users.id, 3)))).toEqual(["users:3"]);
+    expect(rowKeys(users, eq(users.name, "Ada"))).toBeUndefined();
+    expect(rowKeys(users, or(eq(users.id, 1), eq(users.name, "Ada")))).toBeUndefined();
+    expect(rowKeys(users, undefined)).toBeUndefined();
+
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    await cache.put("user1", [{ id: 1 }], [], false, dependsOn(["users:1"]));
+    await cache.put("user2", [{ id: 2 }], [], false, dependsOn(["users:2"]));
+    await cache.put("post1", [{ id: 1 }], ["posts"], false, dependsOn(["posts:1"]));
+    await cache.put("list", [{ id: 1 }], ["users"], false);
+
+    await cache.invalidateRows(users, eq(users.id, 1));
+    await expect(cache.get("user1", [], false, false)).resolves.toBeUndefined();
+    await expect(cache.get("list", ["users"], false, true)).resolves.toEqual([{ id: 1 }]);
+
+    await cache.invalidateRows(users, eq(users.name, "Ada"));
+    await expect(cache.get("list", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("user2", [], false, false)).resolves.toBeUndefined();
+    await expect(cache.get("post1", ["posts"], false, true)).resolves.toEqual([{ id: 1 }]);
+  });
+
+  it("invalidates dependency keys through the deferred and durable paths", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, durableInvalidation: true });
+    await cache.put("user1", [{ id: 1 }], [], false, dependsOn(["users:1"]));
+    await cache.put("user2", [{ id: 2 }], [], false, dependsOn(["users:2"]));
+
+    await cache.deferInvalidation(async () => {
+      await expect(cache.invalidateKeys(["users:1"])).resolves.toBe(0);
+      await expect(cache.get("user1", [], false, false)).resolves.toBeUndefined();
+      await cache.put("user1", [{ id: "uncommitted" }], [], false, dependsOn(["users:1"]));
+      await expect(cache.get("user2", [], false, false)).resolves.toEqual([{ id: 2 }]);
+    });
+    await expect(cache.inspect("user1", { tables: [] })).resolves.toBeUndefined();
+
+    vi.spyOn(storage, "getKeys").mockRejectedValueOnce(new Error("connection reset"));
+    await expect(cache.invalidateKeys(["users:2"])).resolves.toBe(0);
+    vi.restoreAllMocks();
+    expect((await storage.getKeys()).some((key) => key.includes("__PENDING__:key:"))).toBe(true);
+    await expect(cache.get("user2", [], false, false)).resolves.toBeUndefined();
+    await expect(cache.retryPendingInvalidations()).resolves.toBe(1);
+    await expect(cache.inspect("user2", { tables: [] })).resolves.toBeUndefined();
+    await cache.dispose();
+  });
+
+  it("invalidates tags by pattern", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+
+    await cache.put("tenant:7:users:list", [{ id: 1 }], ["users"], true);
+    await cache.put("tenant:7:users:42", [{ id: 42 }], [], true);
+    await cache.put("tenant:8:users:list", [{ id: 2 }], ["users"], true);
+
+    await cache.onMutate({ tags: "tenant:7:*" });
+    await expect(cache.get("tenant:7:users:list", ["users"], true, true)).resolves.toBeUndefined();
+    await expect(cache.get("tenant:7:users:42", [], true, false)).resolves.toBeUndefined();
+    await expect(cache.get("tenant:8:users:list", ["users"], true, true)).resolves.toEqual([
+      { id: 2 },
+    ]);
+    expect(cache.getStats().invalidations.tags).toBe(1);
+  });
+
+  it("drops entries by their additional tags", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, local: true });
+
+    await cache.put("list", [{ id: 1 }], [], true, withTags(["tenant:7", "users"]));
+    await cache.put("q1", [{ id: 1 }], ["users"], false, withTags(["tenant:7"]));
+    await cache.put("other", [{ id: 2 }], [], true, withTags(["tenant:8"]));
+    await expect(cache.inspect("list", { isTag: true })).resolves.toMatchObject({
+      tags: ["tenant:7", "users"],
+    });
+
+    const getKeys = vi.spyOn(storage, "getKeys");
+    await cache.onMutate({ tags: ["users", "tenant:9", "tenant:10"] });
+    await expect(cache.get("list", [], true, false)).resolves.toBeUndefined();
+    await expect(cache.get("q1", ["users"], false, true)).resolves.toEqual([{ id: 1 }]);
+    expect(getKeys.mock.calls.filter(([base]) => base?.includes("__TAGS__"))).toHaveLength(1);
+    vi.restoreAllMocks();
+
+    await cache.purgeTags("tenant:*");
+    await expect(cache.get("q1", ["users"], false, true)).resolves.toBeUndefined();
+    await expect(cache.get("other", [], true, false)).resolves.toBeUndefined();
+    const leftovers = (await storage.getKeys()).filter((key) => key.includes("__TAGS__"));
+    expect(leftovers).toEqual([]);
+  });
+
+  it("scopes keys to the resolved namespace", async () => {
+    const storage = createStorage();
+    let tenant: string | undefined = "t1";
+    const cache = unstorageCache({
+      storage,
+      config: { ex: 60 },
+      local: true,
+      namespace: () => tenant,
+    });
+
+    await cache.put("k1", [{ tenant: 1 }], ["users"], false);
+    tenant = "t2";
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await cache.put("k1", [{ tenant: 2 }], ["users"], false);
+
+    await cache.onMutate({ tables: "users" });
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    tenant = "t1";
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ tenant: 1 }]);
+    await expect(
+      cache.runInNamespace("t2", () => cache.get("k1", ["users"], false, true)),
+    ).resolves.toBeUndefined();
+
+    await cache.runInNamespace("t2", () => cache.put("k2", [{ tenant: 2 }], [], false));
+    await expect(cache.purgeNamespace("t1")).resolves.toBe(2);
+    await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    tenant = "t2";
+    await expect(cache.get("k2", [], false, false)).resolves.toEqual([{ tenant: 2 }]);
+    expect((await storage.getKeys()).every((key) => key.startsWith("drizzle:cache:t2:"))).toBe(
+      true,
+    );
+  });
+
+  it("applies remote invalidations to the publishing namespace", async () => {
+    const storage = createStorage();
+    const transport = memoryInvalidationTransport();
+    let tenant = "t1";
+    const options = {
+      storage,
+      config: { ex: 60 },
+      local: true,
+      invalidation: { transport },
+      namespace: () => tenant,
+    };
+    const writer = unstorageCache(options);
+    const reader = unstorageCache(options);
+
+    await reader.put("k1", [{ tenant: 1 }], ["users"], false);
+    tenant = "t2";
+    await reader.put("k1", [{ tenant: 2 }], ["users"], false);
+
+    await writer.onMutate({ tables: "users" });
+    // t1 is now only served by the reader's local tier
+    for (const key of await storage.getKeys("drizzle:cache:t1")) await storage.removeItem(key);
+    await expect(reader.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    tenant = "t1";
+    await expect(reader.get("k1", ["users"], false, true)).resolves.toEqual([{ tenant: 1 }]);
+    await writer.dispose();
+    await reader.dispose();
+  });
+
+  it("keeps schema versions apart and invalidates across them", async () => {
+    const storage = createStorage();
+    const blue = unstorageCache({ storage, config: { ex: 60 }, schemaVersion: "v1" });
+    const green = unstorageCache({ storage, config: { ex: 60 }, schemaVersion: "v2" });
+
+    await blue.put("k1", [{ name: "Ada" }], ["users"], false);
+    await expect(green.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+    await green.put("k1", [{ name: "Ada", plan: "pro" }], ["users"], false);
+    await expect(blue.get("k1", ["users"], false, true)).resolves.toEqual([{ name: "Ada" }]);
+
+    await green.onMutate({ tables: "users" });
+    await expect(blue.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+
+    await blue.put("k2", [{ n: 1 }], [], true);
+    await expect(green.purgeVersions()).resolves.toBe(2);
+    const keys = await storage.getKeys();
+    expect(keys.some((key) => key.includes("@v1"))).toBe(false);
+    expect(keys).not.toContain("drizzle:cache:__SCHEMA__:v1");
+  });
+
+  it("derives schema versions from tables", async () => {
+    const before = pgTable("users", { id: serial("id").primaryKey() });
+    const after = pgTable("users", { id: serial("id").primaryKey(), name: text("name") });
+
+    const version = await schemaVersion({ users: before });
+    await expect(schemaVersion({ users: before, unrelated: 1 })).resolves.toBe(version);
+    await expect(schemaVersion({ users: after })).resolves.not.toBe(version);
+  });
+
+  it("shortens TTLs by up to ttlJitter percent", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 100 }, ttlJitter: 10 });
+    const random = vi.spyOn(Math, "random").mockReturnValue(0.5);
+    try {
+      const now = Date.now();
+      await cache.put("k1", [{ n: 1 }], [], false);
+      const info = await cache.inspect("k1", { tables: [] });
+      expect(info?.expiresAt).toBeGreaterThanOrEqual(now + 95_000);
+      expect(info?.expiresAt).toBeLessThan(now + 96_000);
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it("refreshes entries early based on their compute time", async () => {
+    vi.useFakeTimers();
+    const random = vi.spyOn(Math, "random");
+    try {
+      const storage = createStorage();
+      const cache = unstorageCache({ storage, config: { ex: 60 }, earlyRefresh: true });
+      const misses: string[] = [];
+      cache.on("miss", (event) => misses.push(event.reason));
+
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+      vi.advanceTimersByTime(500);
+      await cache.put("k1", [{ n: 1 }], ["users"], false);
+      const raw = await storage.getItem<CacheEntry>(
+        (await storage.getKeys()).find((key) => key.includes("__CT__")) ?? "",
+      );
+      expect(raw).toMatchObject({ computeMs: 500 });
+
+      vi.advanceTimersByTime(59_000);
+      random.mockReturnValue(0.99);
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toEqual([{ n: 1 }]);
+      random.mockReturnValue(0.01);
+      await expect(cache.get("k1", ["users"], false, true)).resolves.toBeUndefined();
+      expect(misses).toEqual(["missing", "early"]);
+    } finally {
+      random.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+
+  it("caches empty results with their own TTL", async () => {
+    vi.useFakeTimers();
+    try {
+      const storage = createStorage();
+      const cache = unstorageCache({ storage, config: { ex: 60 }, emptyResults: { ex: 5 } });
+
+      await cache.put("none", [], ["invites"], false);
+      await cache.put("some", [{ id: 1 }], ["invites"], false);
+      await expect(cache.get("none", ["invites"], false, true)).resolves.toEqual([]);
+
+      vi.advanceTimersByTime(5001);
+      await expect(cache.get("none", ["invites"], false, true)).resolves.toBeUndefined();
+      await expect(cache.get("some", ["invites"], false, true)).resolves.toEqual([{ id: 1 }]);
+
+      await cache.put("none", [], ["invites"], false);
+      await cache.onMutate({ tables: "invites" });
+      await expect(cache.get("none", ["invites"], false, true)).resolves.toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("skips empty results when emptyResults is false", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 }, emptyResults: false });
+    const skipped = vi.fn();
+    cache.on("skip", skipped);
+
+    await cache.put("k1", [{ id: 1 }], ["invites"], false);
+    await cache.put("k1", [], ["invites"], false);
+    await expect(cache.get("k1", ["invites"], false, true)).resolves.toBeUndefined();
+    expect(skipped).toHaveBeenCalledWith(expect.objectContaining({ key: "k1", reason: "empty" }));
+    expect(await storage.getKeys()).toEqual([]);
+  });
+
+  it("batches reads of several keys with getMany", async () => {
+    const storage = createStorage();
+    const cache = unstorageCache({ storage, config: { ex: 60 } });
+    await cache.put("q1", [{ n: 1 }], ["users"], false);
+    await cache.put("q2", [{ n: 2 }], [], false);
+    await cache.put("t1", [{ n: 3 }], ["users"], true);
+    await cache.put("t2", [{ n: 4 }], [], true);
+
+    const getItem = vi.spyOn(storage, "getItem");
+    const getItems = vi.spyOn(storage, "getItems");
+    await expect(
+      cache.getMany([
+        { key: "q1", tables: ["users"] },
+        { key: "q2" },
+        { key: "t1", isTag: true },
+        { key: "t2", isTag: true },
+        { key: "missing", tables: ["users"] },
+      ]),
+    ).resolves.toEqual([[{ n: 1 }], [{ n: 2 }], [{ n: 3 }], [{ n: 4 }], undefined]);
+    expect(getItems).toHaveBeenCalledTimes(2);
+    expect(getItem).not.toHaveBeenCalled();
+  });
+
   it.each([
     {
       name: "ex",